@@ -0,0 +1,270 @@
+import { accountFromUri } from "./factory.ts";
+import type { OtpAccount } from "./factory.ts";
+import { Hotp } from "./hotp.ts";
+import type { KeyUriLabel } from "./key_uri.ts";
+import { Totp } from "./totp.ts";
+
+/** Result of a keypress in the authenticator. */
+export enum AuthenticatorAction {
+  None = "none",
+  /** The screen has to be rendered again. */
+  Render = "render",
+  /** The counter of a Hotp account was advanced and the accounts should be saved. */
+  CounterAdvanced = "counterAdvanced",
+  /** The code of the selected account should be printed and the authenticator closed. */
+  Copy = "copy",
+  Quit = "quit",
+}
+
+export interface AuthenticatorOptions {
+  /** Width of the progress bar in characters, defaults to 20. */
+  progressBarWidth?: number;
+}
+
+const keys = {
+  up: ["k", "\x1b[A"],
+  down: ["j", "\x1b[B"],
+  advance: ["n", " "],
+  copy: ["c", "\r", "\n"],
+  quit: ["q", "\x1b", "\x03"],
+};
+
+const help = "↑/↓ select · n next hotp code · enter copy to stdout · q quit";
+
+/**
+ * Terminal authenticator which shows the codes of a list of accounts.
+ * Totp codes refresh at the step boundaries with a countdown and Hotp codes are advanced by a keypress.
+ * The terminal handling is done by runAuthenticator, so the rendering and the keys can be used without a terminal.
+ */
+export class Authenticator {
+  #accounts: OtpAccount[];
+  public get accounts(): OtpAccount[] {
+    return [...this.#accounts];
+  }
+
+  #selectedIndex = 0;
+  public get selectedIndex(): number {
+    return this.#selectedIndex;
+  }
+
+  #progressBarWidth: number;
+
+  /**
+   * @param accounts
+   * @param options
+   * @throws TypeError if there are no accounts.
+   */
+  constructor(
+    accounts: OtpAccount[],
+    options?: AuthenticatorOptions,
+  ) {
+    if (accounts.length === 0) {
+      throw new TypeError("The authenticator requires at least one account.");
+    }
+    this.#accounts = [...accounts];
+    this.#progressBarWidth = options?.progressBarWidth ?? 20;
+  }
+
+  /** Generates the code of the selected account at its current time or counter. */
+  async selectedCode(): Promise<string> {
+    return await this.#accounts[this.#selectedIndex].otp.generate({
+      formatCode: false,
+      sideEffects: false,
+    });
+  }
+
+  /**
+   * Renders the accounts with their codes, the countdown of Totp accounts and the key help.
+   * @param seconds Unix time in seconds, defaults to the time of the clock of each Totp account.
+   */
+  async render(seconds?: number): Promise<string> {
+    const lines: string[] = [];
+    const labels = this.#accounts.map(({ label }) => formatLabel(label));
+    const labelWidth = Math.max(...labels.map((label) => label.length));
+    for (const [index, { otp }] of this.#accounts.entries()) {
+      const marker = index === this.#selectedIndex ? ">" : " ";
+      const code = await otp.generate({
+        movingFactor: otp instanceof Totp ? seconds : undefined,
+        sideEffects: false,
+      });
+      const status = otp instanceof Totp
+        ? this.#progressBar(otp, seconds)
+        : `counter ${otp.counter}`;
+      lines.push(
+        `${marker} ${labels[index].padEnd(labelWidth)}  ${code}  ${status}`,
+      );
+    }
+    lines.push("", help);
+    return lines.join("\n");
+  }
+
+  /**
+   * Handles a keypress and returns what the caller has to do.
+   * @param key Key as read from the terminal in raw mode.
+   */
+  async handleKey(key: string): Promise<AuthenticatorAction> {
+    if (keys.quit.includes(key)) return AuthenticatorAction.Quit;
+    if (keys.copy.includes(key)) return AuthenticatorAction.Copy;
+    if (keys.up.includes(key) || keys.down.includes(key)) {
+      const step = keys.up.includes(key) ? -1 : 1;
+      this.#selectedIndex =
+        (this.#selectedIndex + step + this.#accounts.length) %
+        this.#accounts.length;
+      return AuthenticatorAction.Render;
+    }
+    const { otp } = this.#accounts[this.#selectedIndex];
+    if (keys.advance.includes(key) && otp instanceof Hotp) {
+      // Generating with side effects increments the counter, also in a state store
+      await otp.generate();
+      return AuthenticatorAction.CounterAdvanced;
+    }
+    return AuthenticatorAction.None;
+  }
+
+  #progressBar(totp: Totp, seconds?: number): string {
+    const remaining = totp.secondsUntilNextWindow(seconds);
+    const filled = Math.round(
+      remaining / totp.stepSize * this.#progressBarWidth,
+    );
+    return `[${"#".repeat(filled)}${
+      "-".repeat(this.#progressBarWidth - filled)
+    }] ${String(remaining).padStart(2)}s`;
+  }
+}
+
+/**
+ * Parses accounts from a text with one key URI per line.
+ * Empty lines and lines starting with # are ignored.
+ * @param text
+ * @throws TypeError or RangeError if a key URI is invalid, the message contains the line number.
+ */
+export function parseAccounts(text: string): OtpAccount[] {
+  const accounts: OtpAccount[] = [];
+  for (const [index, line] of text.split("\n").entries()) {
+    const uri = line.trim();
+    if (uri === "" || uri.startsWith("#")) continue;
+    try {
+      accounts.push(accountFromUri(uri));
+    } catch (error) {
+      if (error instanceof TypeError || error instanceof RangeError) {
+        error.message = `Line ${index + 1}: ${error.message}`;
+      }
+      throw error;
+    }
+  }
+  return accounts;
+}
+
+function formatLabel(label: KeyUriLabel): string {
+  return label.issuer !== undefined
+    ? `${label.issuer} (${label.accountName})`
+    : label.accountName;
+}
+
+/**
+ * Formats the accounts as one key URI per line, e.g. to save advanced Hotp counters.
+ * @param accounts
+ */
+export function formatAccounts(accounts: OtpAccount[]): string {
+  return accounts.map(({ label, otp }) => otp.toUri(label)).join("\n") + "\n";
+}
+
+/**
+ * Replaces the key URIs of changed accounts, e.g. advanced Hotp counters, in the text parsed by parseAccounts.
+ * Comments, empty lines and the lines of unchanged accounts are kept byte for byte.
+ * @param text Text the accounts were parsed from.
+ * @param accounts Accounts in the order of parseAccounts.
+ * @throws TypeError if the text does not contain one key URI per account.
+ */
+export function updateAccounts(text: string, accounts: OtpAccount[]): string {
+  let accountIndex = 0;
+  const lines = text.split("\n").map((line) => {
+    const uri = line.trim();
+    if (uri === "" || uri.startsWith("#")) return line;
+    const account = accounts[accountIndex++];
+    if (account === undefined) return line;
+    const previous = accountFromUri(uri);
+    const updatedUri = account.otp.toUri(account.label);
+    return previous.otp.toUri(previous.label) === updatedUri
+      ? line
+      : line.replace(uri, updatedUri);
+  });
+  if (accountIndex !== accounts.length) {
+    throw new TypeError("The text does not contain a key URI per account.");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Runs the authenticator in the terminal until it is closed.
+ * The screen is drawn on stderr, so only the copied code is written to stdout and can be piped, e.g. to a clipboard tool.
+ * Advanced Hotp counters are saved to the accounts file, only the lines of the changed key URIs are rewritten.
+ * @param path File with one key URI per line.
+ * @returns The copied code or undefined if the authenticator was closed without copying.
+ * @throws TypeError if stdin is not a terminal or the accounts file is invalid.
+ * @throws Error of the first failed draw, which stops the authenticator.
+ */
+export async function runAuthenticator(
+  path: string,
+  options?: AuthenticatorOptions,
+): Promise<string | undefined> {
+  if (!Deno.stdin.isTerminal()) {
+    throw new TypeError("The authenticator requires an interactive terminal.");
+  }
+  let text = await Deno.readTextFile(path);
+  const authenticator = new Authenticator(parseAccounts(text), options);
+  const encoder = new TextEncoder();
+  const draw = async () => {
+    // Move the cursor home and clear the screen before drawing
+    const screen = `\x1b[H\x1b[2J${await authenticator.render()}`;
+    await Deno.stderr.write(encoder.encode(screen.replaceAll("\n", "\r\n")));
+  };
+
+  Deno.stdin.setRaw(true);
+  const reader = Deno.stdin.readable.getReader();
+  let drawing = Promise.resolve();
+  let drawFailed = false;
+  let drawError: unknown;
+  const redraw = () => {
+    if (drawFailed) return;
+    drawing = drawing.then(draw).catch((error) => {
+      // Stop on the first failed draw instead of skipping every later one
+      drawFailed = true;
+      drawError = error;
+      reader.cancel().catch(() => {});
+    });
+  };
+  redraw();
+  // Redraw every second, which refreshes the Totp codes at the step boundaries
+  const interval = setInterval(redraw, 1000);
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (drawFailed) throw drawError;
+      if (done) return undefined;
+      const action = await authenticator.handleKey(
+        new TextDecoder().decode(value),
+      );
+      switch (action) {
+        case AuthenticatorAction.Quit:
+          return undefined;
+        case AuthenticatorAction.Copy:
+          return await authenticator.selectedCode();
+        case AuthenticatorAction.CounterAdvanced:
+          text = updateAccounts(text, authenticator.accounts);
+          await Deno.writeTextFile(path, text);
+          redraw();
+          break;
+        case AuthenticatorAction.Render:
+          redraw();
+          break;
+      }
+    }
+  } finally {
+    clearInterval(interval);
+    await drawing;
+    reader.releaseLock();
+    Deno.stdin.setRaw(false);
+    await Deno.stderr.write(encoder.encode("\x1b[H\x1b[2J"));
+  }
+}
@@ -0,0 +1,121 @@
+import { assert, assertEquals, assertThrows } from "./test_deps.ts";
+import {
+  Authenticator,
+  AuthenticatorAction,
+  formatAccounts,
+  parseAccounts,
+  updateAccounts,
+} from "./authenticator.ts";
+import { Hotp } from "./hotp.ts";
+
+const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const accountsText = `# Test accounts
+otpauth://totp/Example:alice?secret=${secret}&issuer=Example&digits=8
+
+otpauth://hotp/bob?secret=${secret}&counter=1
+`;
+
+Deno.test({
+  name: "parseAccounts() ignores comments and reports the line of invalid URIs",
+  fn(): void {
+    const accounts = parseAccounts(accountsText);
+    assertEquals(accounts.map(({ label }) => label), [
+      { accountName: "alice", issuer: "Example" },
+      { accountName: "bob", issuer: undefined },
+    ]);
+    assertEquals(accounts[0].otp.digits, 8);
+    assertEquals((accounts[1].otp as Hotp).counter, 1);
+    assertThrows(
+      () => parseAccounts(`\notpauth://totp/alice?secret=invalid!`),
+      TypeError,
+      "Line 2:",
+    );
+  },
+});
+
+Deno.test({
+  name: "formatAccounts() can be parsed again",
+  fn(): void {
+    const accounts = parseAccounts(formatAccounts(parseAccounts(accountsText)));
+    assertEquals(accounts.length, 2);
+    assertEquals((accounts[1].otp as Hotp).counter, 1);
+  },
+});
+
+Deno.test({
+  name: "render() shows the codes and the countdown of Totp accounts",
+  async fn(): Promise<void> {
+    const authenticator = new Authenticator(parseAccounts(accountsText), {
+      progressBarWidth: 10,
+    });
+    assertEquals(
+      (await authenticator.render(45)).split("\n").slice(0, 2),
+      [
+        "> Example (alice)  9428 7082  [#####-----] 15s",
+        "  bob              287 082  counter 1",
+      ],
+    );
+  },
+});
+
+Deno.test({
+  name: "handleKey() selects accounts and advances Hotp counters",
+  async fn(): Promise<void> {
+    const accounts = parseAccounts(accountsText);
+    const authenticator = new Authenticator(accounts);
+    assertEquals(await authenticator.handleKey("n"), AuthenticatorAction.None);
+    assertEquals(
+      await authenticator.handleKey("\x1b[B"),
+      AuthenticatorAction.Render,
+    );
+    assertEquals(authenticator.selectedIndex, 1);
+    assertEquals(
+      await authenticator.handleKey("n"),
+      AuthenticatorAction.CounterAdvanced,
+    );
+    assertEquals((accounts[1].otp as Hotp).counter, 2);
+    assertEquals(await authenticator.selectedCode(), "359152");
+    assertEquals(await authenticator.handleKey("\r"), AuthenticatorAction.Copy);
+    assertEquals(
+      await authenticator.handleKey("k"),
+      AuthenticatorAction.Render,
+    );
+    assertEquals(
+      await authenticator.handleKey("k"),
+      AuthenticatorAction.Render,
+    );
+    assertEquals(authenticator.selectedIndex, 1);
+    assertEquals(await authenticator.handleKey("q"), AuthenticatorAction.Quit);
+    assert(formatAccounts(accounts).includes("counter=2"));
+  },
+});
+
+Deno.test({
+  name: "updateAccounts() only rewrites the key URIs of changed accounts",
+  async fn(): Promise<void> {
+    const text = accountsText.replace("\notpauth://totp", "\n  otpauth://totp");
+    const accounts = parseAccounts(text);
+    assertEquals(updateAccounts(text, accounts), text);
+
+    await accounts[1].otp.generate();
+    const updated = updateAccounts(text, accounts);
+    assertEquals(
+      updated,
+      text.replace(
+        `otpauth://hotp/bob?secret=${secret}&counter=1`,
+        accounts[1].otp.toUri(accounts[1].label),
+      ),
+    );
+    assert(updated.startsWith("# Test accounts\n  otpauth://totp"));
+    assert(updated.includes("\n\notpauth://hotp/bob?"));
+    assertEquals((parseAccounts(updated)[1].otp as Hotp).counter, 2);
+    assertThrows(() => updateAccounts("# empty", accounts), TypeError);
+  },
+});
+
+Deno.test({
+  name: "Requires at least one account",
+  fn(): void {
+    assertThrows(() => new Authenticator([]), TypeError);
+  },
+});
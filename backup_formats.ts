@@ -0,0 +1,647 @@
+import { CodeEncodings } from "./code_encoding.ts";
+import { decode } from "./deps.ts";
+import type { OtpAccount } from "./factory.ts";
+import { Hotp } from "./hotp.ts";
+import type { KeyUriLabel } from "./key_uri.ts";
+import { Otp } from "./otp.ts";
+import { scrypt } from "./scrypt.ts";
+import type { ScryptParameters } from "./scrypt.ts";
+import { Totp } from "./totp.ts";
+import { decodeBase64, encodeBase64, parseOtpAlgorithm } from "./util.ts";
+
+/** Backup formats of third-party authenticator apps. */
+export enum BackupFormat {
+  /** Aegis Authenticator JSON, optionally encrypted with a password. */
+  Aegis = "aegis",
+  /** Unencrypted andOTP JSON. */
+  AndOtp = "andotp",
+  /** Unencrypted 2FAS JSON. */
+  TwoFas = "2fas",
+  /** FreeOTP+ JSON. */
+  FreeOtpPlus = "freeotp+",
+}
+
+export interface BackupOptions {
+  /** Password of encrypted Aegis backups, which is required to import them and encrypts exported ones. */
+  password?: string;
+}
+
+/** Entry which can not be represented in the target and was skipped. */
+export interface SkippedEntry {
+  /** Zero-based index in the imported backup or the exported accounts. */
+  index: number;
+  /** Label of the entry if it could be read. */
+  name?: string;
+  reason: string;
+}
+
+export interface BackupImport {
+  accounts: OtpAccount[];
+  skipped: SkippedEntry[];
+}
+
+export interface BackupExport {
+  /** JSON of the backup. */
+  data: string;
+  skipped: SkippedEntry[];
+}
+
+/** Parameters of an entry shared by all formats. */
+interface BackupEntry {
+  /** Lower case type like totp, hotp or steam. */
+  type: string;
+  label: KeyUriLabel;
+  /** Base32 string or bytes. */
+  secret: string | Uint8Array;
+  /** Algorithm name without dash like SHA1. */
+  algorithm: string;
+  digits: number;
+  period?: number;
+  counter?: number;
+}
+
+type Json = Record<string, unknown>;
+
+interface BackupCodec {
+  /** Returns the raw entries of a parsed backup. */
+  entries(backup: unknown): unknown[];
+  read(entry: Json): BackupEntry;
+  write(entries: BackupEntry[]): unknown;
+  /** Whether Steam Guard entries can be written. */
+  steam: boolean;
+}
+
+/**
+ * Imports the accounts of an authenticator app backup.
+ * Entries which can not be represented, e.g. because of an unsupported type or algorithm, are reported as skipped.
+ * @param format
+ * @param data JSON of the backup.
+ * @param options
+ * @throws SyntaxError if the JSON is malformed.
+ * @throws TypeError if the backup has an unexpected structure, is encrypted without a supported key slot or the password is missing.
+ * @throws Error if the password does not decrypt the Aegis backup.
+ */
+export async function importBackup(
+  format: BackupFormat,
+  data: string,
+  options?: BackupOptions,
+): Promise<BackupImport> {
+  const codec = codecs[format];
+  let backup: unknown = JSON.parse(data);
+  if (format === BackupFormat.Aegis) {
+    backup = await decryptAegis(getObject(backup, "backup"), options?.password);
+  }
+  const result: BackupImport = { accounts: [], skipped: [] };
+  for (const [index, raw] of codec.entries(backup).entries()) {
+    let entry: BackupEntry | undefined;
+    try {
+      entry = codec.read(getObject(raw, "entry"));
+      result.accounts.push({ label: entry.label, otp: toOtp(entry) });
+    } catch (error) {
+      if (!(error instanceof TypeError || error instanceof RangeError)) {
+        throw error;
+      }
+      result.skipped.push({
+        index,
+        name: entry !== undefined ? formatLabel(entry.label) : undefined,
+        reason: error.message,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Exports the accounts as a backup which can be imported by the authenticator app.
+ * Accounts which the format can not express, e.g. with a t0 other than 0 or non-decimal codes, are reported as skipped.
+ * @param format
+ * @param accounts
+ * @param options
+ * @throws TypeError if a password is set for another format than Aegis.
+ */
+export async function exportBackup(
+  format: BackupFormat,
+  accounts: OtpAccount[],
+  options?: BackupOptions,
+): Promise<BackupExport> {
+  if (options?.password !== undefined && format !== BackupFormat.Aegis) {
+    throw new TypeError("Only Aegis backups can be encrypted.");
+  }
+  const codec = codecs[format];
+  const entries: BackupEntry[] = [];
+  const skipped: SkippedEntry[] = [];
+  for (const [index, account] of accounts.entries()) {
+    try {
+      entries.push(toEntry(account, codec.steam));
+    } catch (error) {
+      if (!(error instanceof TypeError || error instanceof RangeError)) {
+        throw error;
+      }
+      skipped.push({
+        index,
+        name: formatLabel(account.label),
+        reason: error.message,
+      });
+    }
+  }
+  let backup = codec.write(entries);
+  if (format === BackupFormat.Aegis && options?.password !== undefined) {
+    backup = await encryptAegis(backup as Json, options.password);
+  }
+  return { data: JSON.stringify(backup, null, 2), skipped };
+}
+
+function toOtp(entry: BackupEntry): Hotp | Totp {
+  const algorithm = parseOtpAlgorithm(entry.algorithm);
+  if (algorithm === undefined) {
+    throw new TypeError(`The algorithm "${entry.algorithm}" is not supported.`);
+  }
+  const secret = entry.secret;
+  if (
+    secret.length === 0 ||
+    typeof secret === "string" && !Otp.validateSecret(secret)
+  ) {
+    throw new TypeError("The secret is empty or not valid Base32.");
+  }
+  const options = { algorithm, digits: entry.digits };
+  switch (entry.type) {
+    case "totp":
+      return new Totp(secret, { ...options, stepSize: entry.period });
+    case "hotp":
+      return new Hotp(secret, { ...options, counter: entry.counter });
+    case "steam":
+      return new Totp(secret, {
+        ...options,
+        stepSize: entry.period,
+        codeEncoding: CodeEncodings.Steam,
+      });
+    default:
+      throw new TypeError(`The type "${entry.type}" is not supported.`);
+  }
+}
+
+function toEntry({ label, otp }: OtpAccount, steam: boolean): BackupEntry {
+  const serialized = otp.toJSON();
+  let type: string = serialized.type;
+  if (serialized.codeEncoding !== undefined) {
+    const isSteam = otp instanceof Totp &&
+      serialized.codeEncoding.alphabet === CodeEncodings.Steam.alphabet &&
+      serialized.codeEncoding.leastSignificantFirst ===
+        CodeEncodings.Steam.leastSignificantFirst;
+    if (!isSteam) {
+      throw new TypeError(
+        "Only decimal and Steam Guard codes can be exported.",
+      );
+    }
+    if (!steam) {
+      throw new TypeError("The format does not support Steam Guard codes.");
+    }
+    type = "steam";
+  }
+  if (otp instanceof Totp && otp.t0 !== 0) {
+    throw new RangeError("A t0 other than 0 can not be exported.");
+  }
+  return {
+    type,
+    label,
+    secret: serialized.secret.replace(/=+$/, ""),
+    algorithm: otp.algorithm.replace("-", ""),
+    digits: otp.digits,
+    ...(otp instanceof Totp
+      ? { period: otp.stepSize }
+      : { counter: otp.counter }),
+  };
+}
+
+function formatLabel(label: KeyUriLabel): string {
+  return label.issuer !== undefined && label.issuer !== ""
+    ? `${label.issuer}:${label.accountName}`
+    : label.accountName;
+}
+
+/** Labels of the apps use empty strings for missing issuers. */
+function createLabel(accountName: string, issuer?: string): KeyUriLabel {
+  return issuer !== undefined && issuer !== ""
+    ? { accountName, issuer }
+    : { accountName };
+}
+
+const codecs: Record<BackupFormat, BackupCodec> = {
+  [BackupFormat.Aegis]: {
+    entries: (backup) =>
+      getArray(
+        getObject(getObject(backup, "backup").db, "db").entries,
+        "entries",
+      ),
+    read: (entry) => {
+      const info = getObject(entry.info, "info");
+      return {
+        type: getString(entry, "type").toLowerCase(),
+        label: createLabel(
+          getString(entry, "name"),
+          getOptional(entry, "issuer", getString),
+        ),
+        secret: getString(info, "secret"),
+        algorithm: getString(info, "algo"),
+        digits: getNumber(info, "digits"),
+        period: getOptional(info, "period", getNumber),
+        counter: getOptional(info, "counter", getNumber),
+      };
+    },
+    write: (entries) => ({
+      version: 1,
+      header: { slots: null, params: null },
+      db: {
+        version: 2,
+        entries: entries.map((entry) => ({
+          type: entry.type,
+          uuid: crypto.randomUUID(),
+          name: entry.label.accountName,
+          issuer: entry.label.issuer ?? "",
+          note: "",
+          favorite: false,
+          icon: null,
+          info: {
+            secret: entry.secret,
+            algo: entry.algorithm,
+            digits: entry.digits,
+            ...typeParameters(entry),
+          },
+        })),
+      },
+    }),
+    steam: true,
+  },
+  [BackupFormat.AndOtp]: {
+    entries: (backup) => getArray(backup, "backup"),
+    read: (entry) => ({
+      type: getString(entry, "type").toLowerCase(),
+      label: createLabel(
+        getString(entry, "label"),
+        getOptional(entry, "issuer", getString),
+      ),
+      secret: getString(entry, "secret"),
+      algorithm: getString(entry, "algorithm"),
+      digits: getNumber(entry, "digits"),
+      period: getOptional(entry, "period", getNumber),
+      counter: getOptional(entry, "counter", getNumber),
+    }),
+    write: (entries) =>
+      entries.map((entry) => ({
+        secret: entry.secret,
+        issuer: entry.label.issuer ?? "",
+        label: entry.label.accountName,
+        digits: entry.digits,
+        type: entry.type.toUpperCase(),
+        algorithm: entry.algorithm,
+        thumbnail: "Default",
+        last_used: 0,
+        used_frequency: 0,
+        ...typeParameters(entry),
+        tags: [],
+      })),
+    steam: true,
+  },
+  [BackupFormat.TwoFas]: {
+    entries: (backup) => {
+      const json = getObject(backup, "backup");
+      if (json.servicesEncrypted !== undefined) {
+        throw new TypeError(
+          "Encrypted 2FAS backups are not supported, export them without a password.",
+        );
+      }
+      return getArray(json.services, "services");
+    },
+    read: (entry) => {
+      const name = getString(entry, "name");
+      const otp = getObject(entry.otp, "otp");
+      const accountName = getOptional(otp, "account", getString) ??
+        getOptional(otp, "label", getString) ?? "";
+      return {
+        type: (getOptional(otp, "tokenType", getString) ?? "TOTP")
+          .toLowerCase(),
+        // The service name is the issuer unless it only repeats the account name
+        label: createLabel(
+          accountName,
+          getOptional(otp, "issuer", getString) ??
+            (name !== accountName ? name : undefined),
+        ),
+        secret: getString(entry, "secret"),
+        algorithm: getOptional(otp, "algorithm", getString) ?? "SHA1",
+        digits: getOptional(otp, "digits", getNumber) ?? 6,
+        period: getOptional(otp, "period", getNumber),
+        counter: getOptional(otp, "counter", getNumber),
+      };
+    },
+    write: (entries) => {
+      const updatedAt = Date.now();
+      return {
+        services: entries.map((entry, position) => ({
+          name: entry.label.issuer ?? entry.label.accountName,
+          secret: entry.secret,
+          updatedAt,
+          otp: {
+            account: entry.label.accountName,
+            ...(entry.label.issuer !== undefined &&
+              { issuer: entry.label.issuer }),
+            digits: entry.digits,
+            algorithm: entry.algorithm,
+            tokenType: entry.type.toUpperCase(),
+            source: "Link",
+            ...typeParameters(entry),
+          },
+          order: { position },
+        })),
+        groups: [],
+        updatedAt,
+        schemaVersion: 4,
+      };
+    },
+    steam: true,
+  },
+  [BackupFormat.FreeOtpPlus]: {
+    entries: (backup) => getArray(getObject(backup, "backup").tokens, "tokens"),
+    read: (entry) => {
+      const secret = getArray(entry.secret, "secret");
+      if (
+        !secret.every((byte) =>
+          Number.isInteger(byte) && (byte as number) >= -128 &&
+          (byte as number) <= 255
+        )
+      ) {
+        throw new TypeError('The field "secret" must be an array of bytes.');
+      }
+      return {
+        type: getString(entry, "type").toLowerCase(),
+        label: createLabel(
+          getString(entry, "label"),
+          getOptional(entry, "issuerExt", getString) ??
+            getOptional(entry, "issuerInt", getString),
+        ),
+        // Bytes are stored as signed Java bytes
+        secret: Uint8Array.from(secret as number[]),
+        algorithm: getString(entry, "algo"),
+        digits: getNumber(entry, "digits"),
+        period: getOptional(entry, "period", getNumber),
+        counter: getOptional(entry, "counter", getNumber),
+      };
+    },
+    write: (entries) => ({
+      tokenOrder: entries.map((entry) => formatLabel(entry.label)),
+      tokens: entries.map((entry) => ({
+        algo: entry.algorithm,
+        counter: entry.counter ?? 0,
+        digits: entry.digits,
+        issuerExt: entry.label.issuer ?? "",
+        issuerInt: entry.label.issuer ?? "",
+        label: entry.label.accountName,
+        period: entry.period ?? 30,
+        secret: [...new Int8Array(decode(padBase32(entry.secret as string)))],
+        type: entry.type.toUpperCase(),
+      })),
+    }),
+    steam: false,
+  },
+};
+
+function typeParameters(
+  entry: BackupEntry,
+): { period: number } | { counter: number } {
+  return entry.type === "hotp"
+    ? { counter: entry.counter ?? 0 }
+    : { period: entry.period ?? 30 };
+}
+
+function padBase32(secret: string): string {
+  return secret.padEnd(Math.ceil(secret.length / 8) * 8, "=");
+}
+
+function getObject(value: unknown, name: string): Json {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new TypeError(`The field "${name}" must be an object.`);
+  }
+  return value as Json;
+}
+
+function getArray(value: unknown, name: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new TypeError(`The field "${name}" must be an array.`);
+  }
+  return value;
+}
+
+function getString(json: Json, name: string): string {
+  const value = json[name];
+  if (typeof value !== "string") {
+    throw new TypeError(`The field "${name}" must be a string.`);
+  }
+  return value;
+}
+
+function getNumber(json: Json, name: string): number {
+  const value = json[name];
+  if (typeof value !== "number") {
+    throw new TypeError(`The field "${name}" must be a number.`);
+  }
+  return value;
+}
+
+function getOptional<T>(
+  json: Json,
+  name: string,
+  get: (json: Json, name: string) => T,
+): T | undefined {
+  return json[name] === undefined || json[name] === null
+    ? undefined
+    : get(json, name);
+}
+
+// Aegis encrypts the database with a random master key, which is encrypted by key slots
+const aegisPasswordSlot = 1;
+const aegisScryptParameters: ScryptParameters = { n: 2 ** 15, r: 8, p: 1 };
+const tagByteLength = 16;
+const maxScryptParameters: ScryptParameters = { n: 2 ** 20, r: 32, p: 16 };
+// Limits the memory (128 * n * r bytes) and the time (n * r * p) an untrusted backup can demand per slot
+const maxScryptMemory = 256 * 1024 * 1024;
+const maxScryptCost = 2 ** 22;
+
+/**
+ * Reads the scrypt parameters of a key slot.
+ * @param slot
+ * @throws TypeError if n is not a power of two or a parameter, the memory or the cost exceeds the limits.
+ */
+function getScryptParameters(slot: Json): ScryptParameters {
+  const parameters = {
+    n: getNumber(slot, "n"),
+    r: getNumber(slot, "r"),
+    p: getNumber(slot, "p"),
+  };
+  for (const name of ["n", "r", "p"] as const) {
+    const value = parameters[name];
+    if (
+      !Number.isInteger(value) || value < 1 ||
+      value > maxScryptParameters[name]
+    ) {
+      throw new TypeError(
+        `The scrypt parameter ${name} of the Aegis key slot must be an integer between 1 and ${
+          maxScryptParameters[name]
+        }.`,
+      );
+    }
+  }
+  if (parameters.n < 2 || (parameters.n & (parameters.n - 1)) !== 0) {
+    throw new TypeError(
+      "The scrypt parameter n of the Aegis key slot must be a power of two.",
+    );
+  }
+  const { n, r, p } = parameters;
+  if (128 * n * r > maxScryptMemory) {
+    throw new TypeError(
+      `The scrypt parameters of the Aegis key slot require more than ${maxScryptMemory} bytes of memory.`,
+    );
+  }
+  if (n * r * p > maxScryptCost) {
+    throw new TypeError(
+      `The scrypt parameters of the Aegis key slot exceed the cost n * r * p of ${maxScryptCost}.`,
+    );
+  }
+  return parameters;
+}
+
+async function decryptAegis(backup: Json, password?: string): Promise<Json> {
+  const header = getObject(backup.header, "header");
+  if (header.slots === null || header.slots === undefined) return backup;
+  if (password === undefined) {
+    throw new TypeError(
+      "The Aegis backup is encrypted and requires a password.",
+    );
+  }
+  const slots = getArray(header.slots, "slots").map((slot) =>
+    getObject(slot, "slot")
+  ).filter((slot) => slot.type === aegisPasswordSlot);
+  if (slots.length === 0) {
+    throw new TypeError("The Aegis backup has no password slot.");
+  }
+  let masterKey: Uint8Array | undefined;
+  for (const slot of slots) {
+    const keyParameters = getObject(slot.key_params, "key_params");
+    const passwordKey = await scrypt(
+      new TextEncoder().encode(password),
+      fromHex(getString(slot, "salt")),
+      getScryptParameters(slot),
+      32,
+    );
+    try {
+      masterKey = await decryptAesGcm(
+        passwordKey,
+        fromHex(getString(keyParameters, "nonce")),
+        fromHex(getString(slot, "key")),
+        fromHex(getString(keyParameters, "tag")),
+      );
+      break;
+    } catch (_) {
+      // The password belongs to another slot
+    }
+  }
+  if (masterKey === undefined) {
+    throw new Error("The password does not decrypt the Aegis backup.");
+  }
+  const parameters = getObject(header.params, "params");
+  const db = await decryptAesGcm(
+    masterKey,
+    fromHex(getString(parameters, "nonce")),
+    decodeBase64(getString(backup, "db")),
+    fromHex(getString(parameters, "tag")),
+  );
+  return { ...backup, db: JSON.parse(new TextDecoder().decode(db)) };
+}
+
+async function encryptAegis(backup: Json, password: string): Promise<Json> {
+  const masterKey = crypto.getRandomValues(new Uint8Array(32));
+  const salt = crypto.getRandomValues(new Uint8Array(32));
+  const passwordKey = await scrypt(
+    new TextEncoder().encode(password),
+    salt,
+    aegisScryptParameters,
+    32,
+  );
+  const slotKey = await encryptAesGcm(passwordKey, masterKey);
+  const db = await encryptAesGcm(
+    masterKey,
+    new TextEncoder().encode(JSON.stringify(backup.db)),
+  );
+  return {
+    version: backup.version,
+    header: {
+      slots: [{
+        type: aegisPasswordSlot,
+        uuid: crypto.randomUUID(),
+        key: toHex(slotKey.ciphertext),
+        key_params: { nonce: toHex(slotKey.nonce), tag: toHex(slotKey.tag) },
+        ...aegisScryptParameters,
+        salt: toHex(salt),
+        repaired: true,
+      }],
+      params: { nonce: toHex(db.nonce), tag: toHex(db.tag) },
+    },
+    db: encodeBase64(db.ciphertext),
+  };
+}
+
+async function importAesKey(raw: Uint8Array): Promise<CryptoKey> {
+  return await crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+async function decryptAesGcm(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  ciphertext: Uint8Array,
+  tag: Uint8Array,
+): Promise<Uint8Array> {
+  const data = new Uint8Array(ciphertext.length + tag.length);
+  data.set(ciphertext);
+  data.set(tag, ciphertext.length);
+  return new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: nonce },
+      await importAesKey(key),
+      data,
+    ),
+  );
+}
+
+async function encryptAesGcm(
+  key: Uint8Array,
+  plaintext: Uint8Array,
+): Promise<{ nonce: Uint8Array; ciphertext: Uint8Array; tag: Uint8Array }> {
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const data = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: nonce },
+      await importAesKey(key),
+      plaintext,
+    ),
+  );
+  return {
+    nonce,
+    ciphertext: data.slice(0, -tagByteLength),
+    tag: data.slice(-tagByteLength),
+  };
+}
+
+function fromHex(hex: string): Uint8Array {
+  if (!/^([0-9a-f]{2})*$/i.test(hex)) {
+    throw new TypeError(`"${hex}" is not a valid hex string.`);
+  }
+  return Uint8Array.from(
+    hex.match(/../g) ?? [],
+    (byte) => parseInt(byte, 16),
+  );
+}
+
+function toHex(bytes: Uint8Array): string {
+  return [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
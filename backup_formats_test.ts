@@ -0,0 +1,311 @@
+import { assertEquals, assertRejects } from "./test_deps.ts";
+import { BackupFormat, exportBackup, importBackup } from "./backup_formats.ts";
+import { CodeEncodings } from "./code_encoding.ts";
+import { Hotp } from "./hotp.ts";
+import { OtpAlgorithm } from "./otp.ts";
+import { Totp } from "./totp.ts";
+
+const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+const accounts = [
+  {
+    label: { accountName: "alice", issuer: "Example" },
+    otp: new Totp(secret, { algorithm: OtpAlgorithm.SHA256, digits: 8 }),
+  },
+  {
+    label: { accountName: "bob" },
+    otp: new Hotp(secret, { counter: 7 }),
+  },
+  {
+    label: { accountName: "carol", issuer: "Example" },
+    otp: new Totp(secret, { stepSize: 60 }),
+  },
+];
+
+const aegisBackup = JSON.stringify({
+  version: 1,
+  header: { slots: null, params: null },
+  db: {
+    version: 2,
+    entries: [
+      {
+        type: "totp",
+        uuid: "01234567-89ab-cdef-0123-456789abcdef",
+        name: "alice",
+        issuer: "Example",
+        icon: null,
+        info: { secret, algo: "SHA256", digits: 8, period: 30 },
+      },
+      {
+        type: "steam",
+        uuid: "11234567-89ab-cdef-0123-456789abcdef",
+        name: "gamer",
+        issuer: "Steam",
+        icon: null,
+        info: { secret, algo: "SHA1", digits: 5, period: 30 },
+      },
+      {
+        type: "yandex",
+        uuid: "21234567-89ab-cdef-0123-456789abcdef",
+        name: "dave",
+        issuer: "Yandex",
+        icon: null,
+        info: { secret, algo: "SHA256", digits: 8, period: 30, pin: "1234" },
+      },
+      {
+        type: "totp",
+        uuid: "31234567-89ab-cdef-0123-456789abcdef",
+        name: "erin",
+        issuer: "",
+        icon: null,
+        info: { secret, algo: "MD5", digits: 6, period: 30 },
+      },
+    ],
+  },
+});
+
+Deno.test({
+  name: "Imports Aegis backups and reports unsupported entries",
+  async fn(): Promise<void> {
+    const { accounts, skipped } = await importBackup(
+      BackupFormat.Aegis,
+      aegisBackup,
+    );
+    assertEquals(accounts.map(({ label }) => label), [
+      { accountName: "alice", issuer: "Example" },
+      { accountName: "gamer", issuer: "Steam" },
+    ]);
+    assertEquals(
+      await accounts[0].otp.generate({ movingFactor: 59, sideEffects: false }),
+      await new Totp(secret, { algorithm: OtpAlgorithm.SHA256, digits: 8 })
+        .generate({ movingFactor: 59, sideEffects: false }),
+    );
+    assertEquals(accounts[1].otp.codeEncoding, CodeEncodings.Steam);
+    assertEquals(skipped, [
+      {
+        index: 2,
+        name: "Yandex:dave",
+        reason: 'The type "yandex" is not supported.',
+      },
+      {
+        index: 3,
+        name: "erin",
+        reason: 'The algorithm "MD5" is not supported.',
+      },
+    ]);
+  },
+});
+
+Deno.test({
+  name: "Exports and imports password encrypted Aegis backups",
+  async fn(): Promise<void> {
+    const { data } = await exportBackup(BackupFormat.Aegis, accounts, {
+      password: "correct horse",
+    });
+    const backup = JSON.parse(data);
+    assertEquals(typeof backup.db, "string");
+    assertEquals(backup.header.slots[0].type, 1);
+
+    const imported = await importBackup(BackupFormat.Aegis, data, {
+      password: "correct horse",
+    });
+    assertEquals(
+      imported.accounts.map(({ otp }) => otp.toJSON()),
+      accounts.map(({ otp }) => otp.toJSON()),
+    );
+    await assertRejects(
+      () => importBackup(BackupFormat.Aegis, data, { password: "wrong" }),
+      Error,
+      "password",
+    );
+    await assertRejects(
+      () => importBackup(BackupFormat.Aegis, data),
+      TypeError,
+    );
+
+    // Parameters of untrusted backups must not allocate gigabytes
+    for (
+      const slotParameters of [
+        { n: 2 ** 30 },
+        { n: 3000 },
+        { r: 1024 },
+        { n: 2 ** 20, r: 32 },
+        { n: 2 ** 18, r: 8, p: 16 },
+      ]
+    ) {
+      const oversized = {
+        ...backup,
+        header: {
+          ...backup.header,
+          slots: [{ ...backup.header.slots[0], ...slotParameters }],
+        },
+      };
+      await assertRejects(
+        () =>
+          importBackup(BackupFormat.Aegis, JSON.stringify(oversized), {
+            password: "correct horse",
+          }),
+        TypeError,
+        "scrypt parameter",
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "Imports andOTP, 2FAS and FreeOTP+ backups",
+  async fn(): Promise<void> {
+    const andOtp = await importBackup(
+      BackupFormat.AndOtp,
+      JSON.stringify([
+        {
+          secret,
+          issuer: "Example",
+          label: "alice",
+          digits: 6,
+          type: "HOTP",
+          algorithm: "SHA1",
+          thumbnail: "Default",
+          last_used: 0,
+          used_frequency: 0,
+          counter: 3,
+          tags: [],
+        },
+      ]),
+    );
+    assertEquals(andOtp.accounts[0].label, {
+      accountName: "alice",
+      issuer: "Example",
+    });
+    assertEquals((andOtp.accounts[0].otp as Hotp).counter, 3);
+
+    const twoFas = await importBackup(
+      BackupFormat.TwoFas,
+      JSON.stringify({
+        services: [
+          {
+            name: "Example",
+            secret,
+            updatedAt: 0,
+            otp: {
+              account: "alice",
+              digits: 6,
+              period: 30,
+              algorithm: "SHA512",
+              tokenType: "TOTP",
+              source: "Manual",
+            },
+            order: { position: 0 },
+          },
+        ],
+        groups: [],
+        schemaVersion: 4,
+      }),
+    );
+    assertEquals(twoFas.accounts[0].label, {
+      accountName: "alice",
+      issuer: "Example",
+    });
+    assertEquals(twoFas.accounts[0].otp.algorithm, OtpAlgorithm.SHA512);
+
+    // Secret "12345678901234567890" with the Java bytes 0x80 and 0xff at the end
+    const freeOtp = await importBackup(
+      BackupFormat.FreeOtpPlus,
+      JSON.stringify({
+        tokenOrder: ["Example:alice"],
+        tokens: [
+          {
+            algo: "SHA1",
+            counter: 0,
+            digits: 6,
+            issuerExt: "Example",
+            label: "alice",
+            period: 30,
+            secret: [49, 50, 51, 52, 53, 54, 55, 56, 57, 48, -128, -1],
+            type: "TOTP",
+          },
+        ],
+      }),
+    );
+    assertEquals(
+      freeOtp.accounts[0].otp.toJSON().secret,
+      "GEZDGNBVGY3TQOJQQD7Q====",
+    );
+  },
+});
+
+Deno.test({
+  name: "Exported backups can be imported again",
+  async fn(): Promise<void> {
+    for (const format of Object.values(BackupFormat)) {
+      const exported = await exportBackup(format, accounts);
+      assertEquals(exported.skipped, []);
+      const imported = await importBackup(format, exported.data);
+      assertEquals(imported.skipped, []);
+      assertEquals(
+        imported.accounts.map(({ label }) => label),
+        accounts.map(({ label }) => label),
+        format,
+      );
+      assertEquals(
+        imported.accounts.map(({ otp }) => otp.toJSON()),
+        accounts.map(({ otp }) => otp.toJSON()),
+        format,
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "Exports report accounts the format can not express",
+  async fn(): Promise<void> {
+    const unsupported = [
+      {
+        label: { accountName: "steam" },
+        otp: new Totp(secret, {
+          digits: 5,
+          codeEncoding: CodeEncodings.Steam,
+        }),
+      },
+      {
+        label: { accountName: "hex" },
+        otp: new Totp(secret, { codeEncoding: CodeEncodings.Hexadecimal }),
+      },
+      { label: { accountName: "t0" }, otp: new Totp(secret, { t0: 10 }) },
+    ];
+    const { data, skipped } = await exportBackup(
+      BackupFormat.FreeOtpPlus,
+      unsupported,
+    );
+    assertEquals(JSON.parse(data).tokens, []);
+    assertEquals(skipped.map(({ index }) => index), [0, 1, 2]);
+    assertEquals(
+      (await exportBackup(BackupFormat.AndOtp, unsupported)).skipped.map((
+        { name },
+      ) => name),
+      ["hex", "t0"],
+    );
+  },
+});
+
+Deno.test({
+  name: "Rejects encrypted backups which are not supported",
+  async fn(): Promise<void> {
+    await assertRejects(
+      () =>
+        importBackup(
+          BackupFormat.TwoFas,
+          JSON.stringify({ services: [], servicesEncrypted: "..." }),
+        ),
+      TypeError,
+    );
+    await assertRejects(
+      () => exportBackup(BackupFormat.AndOtp, accounts, { password: "x" }),
+      TypeError,
+    );
+    await assertRejects(
+      () => importBackup(BackupFormat.AndOtp, "{"),
+      SyntaxError,
+    );
+  },
+});
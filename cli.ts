@@ -0,0 +1,310 @@
+import { runAuthenticator } from "./authenticator.ts";
+import { parse } from "./deps.ts";
+import { fromJSON } from "./factory.ts";
+import { Hotp } from "./hotp.ts";
+import { parseKeyUri } from "./key_uri.ts";
+import { Otp } from "./otp.ts";
+import type { OtpAlgorithm } from "./otp.ts";
+import { Totp } from "./totp.ts";
+import { parseOtpAlgorithm } from "./util.ts";
+
+/** Exit codes of the command-line tool. */
+export enum ExitCode {
+  Success = 0,
+  /** The validated code is not valid. */
+  InvalidCode = 1,
+  /** The command, an option or an input is invalid. */
+  UsageError = 2,
+}
+
+/** Output of the command-line tool, which can be replaced in tests. */
+export interface CliIo {
+  print(text: string): void;
+  printError(text: string): void;
+}
+
+const consoleIo: CliIo = {
+  print: (text) => console.log(text),
+  printError: (text) => console.error(text),
+};
+
+const usage = `Usage: cli.ts <command> [options]
+
+Commands:
+  secret                          Generates a random Base32 secret
+  generate <secret|uri>           Generates the code of the current time or counter
+  validate <secret|uri> <code>    Validates the code, exits with 1 if it is invalid
+  uri <secret> --account <name>   Prints the key URI to provision authenticator apps
+  info <uri|json>                 Prints the parameters and the counter without the secret
+  app <file>                      Shows the codes of the key URIs in the file, one per line,
+                                  and prints the code selected with enter
+
+Options:
+  --type <totp|hotp>      Type of the codes, defaults to totp
+  --algorithm <name>      SHA1, SHA256 or SHA512, defaults to SHA1
+  --digits <number>       Amount of digits, defaults to 6
+  --period <seconds>      Step size of totp, defaults to 30
+  --counter <number>      Counter of hotp, defaults to 0 or the counter of the URI
+  --time <seconds>        Unix time used instead of the current time
+  --window <number>       Validation window, defaults to 1 for totp and 100 for hotp
+  --bytes <number>        Length of generated secrets in bytes, defaults to 20
+  --allow-short           Allows generated secrets shorter than 16 bytes
+  --account <name>        Account name of the key URI
+  --issuer <name>         Issuer of the key URI
+  --json                  Prints the result as JSON
+  --help                  Prints this help
+
+Exit codes: 0 success, 1 invalid code, 2 usage or input error`;
+
+const stringOptions = [
+  "type",
+  "algorithm",
+  "digits",
+  "period",
+  "counter",
+  "time",
+  "window",
+  "bytes",
+  "account",
+  "issuer",
+];
+const booleanOptions = ["allow-short", "json", "help"];
+
+type Flags = ReturnType<typeof parse>;
+
+/**
+ * Runs the command-line tool and returns the exit code.
+ * @param args Command-line arguments without the script name.
+ * @param io Output, defaults to the console.
+ */
+export async function main(
+  args: string[],
+  io: CliIo = consoleIo,
+): Promise<ExitCode> {
+  const unknownOptions: string[] = [];
+  const flags = parse(args, {
+    // Keeps the leading zeros of codes and secrets consisting of digits
+    string: [...stringOptions, "_"],
+    boolean: booleanOptions,
+    unknown: (arg: string) => {
+      if (!arg.startsWith("-")) return true;
+      unknownOptions.push(arg);
+      return false;
+    },
+  });
+  if (flags.help) {
+    io.print(usage);
+    return ExitCode.Success;
+  }
+  const [command, ...operands] = flags._.map(String);
+  try {
+    if (unknownOptions.length > 0) {
+      throw new TypeError(`Unknown option ${unknownOptions.join(", ")}.`);
+    }
+    const output = await runCommand(command, operands, flags);
+    if (flags.json) {
+      io.print(JSON.stringify(output.result, null, 2));
+    } else if (output.text !== "") {
+      io.print(output.text);
+    }
+    return output.exitCode;
+  } catch (error) {
+    if (
+      error instanceof TypeError || error instanceof RangeError ||
+      error instanceof SyntaxError || error instanceof Deno.errors.NotFound
+    ) {
+      io.printError(`Error: ${error.message}`);
+      if (command === undefined || error instanceof UsageError) {
+        io.printError(usage);
+      }
+      return ExitCode.UsageError;
+    }
+    throw error;
+  }
+}
+
+/** Invalid command or missing operand, which prints the usage. */
+class UsageError extends TypeError {}
+
+interface CommandOutput {
+  result: unknown;
+  text: string;
+  exitCode: ExitCode;
+}
+
+async function runCommand(
+  command: string | undefined,
+  operands: string[],
+  flags: Flags,
+): Promise<CommandOutput> {
+  switch (command) {
+    case "secret": {
+      const secret = Otp.generateBase32Secret({
+        byteLength: integerOption(flags, "bytes"),
+        allowShortSecret: flags["allow-short"],
+      });
+      return { result: { secret }, text: secret, exitCode: ExitCode.Success };
+    }
+    case "generate": {
+      const otp = createOtp(operand(operands, 0, "secret"), flags);
+      const time = integerOption(flags, "time");
+      const code = await otp.generate({
+        movingFactor: otp instanceof Totp ? time : undefined,
+        formatCode: false,
+        sideEffects: false,
+      });
+      const result = otp instanceof Hotp ? { code, counter: otp.counter } : {
+        code,
+        timeStep: Math.floor(
+          ((time ?? Date.now() / 1000) - otp.t0) / otp.stepSize,
+        ),
+        secondsRemaining: otp.secondsUntilNextWindow(time),
+      };
+      return { result, text: code, exitCode: ExitCode.Success };
+    }
+    case "validate": {
+      const otp = createOtp(operand(operands, 0, "secret"), flags);
+      const result = await otp.validateDetailed(operand(operands, 1, "code"), {
+        movingFactor: otp instanceof Totp
+          ? integerOption(flags, "time")
+          : undefined,
+        sideEffects: false,
+        validateAgainstWindow: true,
+      });
+      const nextCounter = otp instanceof Hotp && result.valid
+        ? (result.matchedMovingFactor ?? 0) + 1
+        : undefined;
+      const details = result.valid
+        ? [
+          otp instanceof Hotp
+            ? `counter ${result.matchedMovingFactor}`
+            : `time step ${result.matchedMovingFactor}`,
+          `delta ${result.delta}`,
+          ...(nextCounter !== undefined ? [`next counter ${nextCounter}`] : []),
+        ]
+        : [result.reason];
+      return {
+        result: { ...result, nextCounter },
+        text: `${result.valid ? "valid" : "invalid"} (${details.join(", ")})`,
+        exitCode: result.valid ? ExitCode.Success : ExitCode.InvalidCode,
+      };
+    }
+    case "uri": {
+      const accountName = flags.account;
+      if (accountName === undefined) {
+        throw new UsageError("The uri command requires --account.");
+      }
+      const uri = createOtp(operand(operands, 0, "secret"), flags).toUri({
+        accountName,
+        issuer: flags.issuer,
+      });
+      return { result: { uri }, text: uri, exitCode: ExitCode.Success };
+    }
+    case "info": {
+      const input = operand(operands, 0, "uri or JSON");
+      let result: Record<string, unknown>;
+      if (input.trimStart().startsWith("{")) {
+        const { secret: _secret, ...parameters } = fromJSON(input).toJSON();
+        result = parameters;
+      } else {
+        const { secret: _secret, ...parameters } = parseKeyUri(input);
+        result = parameters;
+      }
+      return {
+        result,
+        text: Object.entries(result)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) =>
+            `${key}: ${
+              typeof value === "object" ? JSON.stringify(value) : value
+            }`
+          )
+          .join("\n"),
+        exitCode: ExitCode.Success,
+      };
+    }
+    case "app": {
+      const code = await runAuthenticator(operand(operands, 0, "file"));
+      return {
+        result: { code: code ?? null },
+        text: code ?? "",
+        exitCode: ExitCode.Success,
+      };
+    }
+    case undefined:
+      throw new UsageError("Missing command.");
+    default:
+      throw new UsageError(`Unknown command "${command}".`);
+  }
+}
+
+/**
+ * Creates the Otp from a key URI or from a secret and the options.
+ * The counter and the window options are applied to key URIs as well.
+ * @param secretOrUri
+ * @param flags
+ */
+function createOtp(secretOrUri: string, flags: Flags): Hotp | Totp {
+  const counter = integerOption(flags, "counter");
+  const window = integerOption(flags, "window");
+  // Omit the window if it is not set, so the default window of the type is used
+  const windowOption = window !== undefined ? { validationWindow: window } : {};
+  if (secretOrUri.startsWith("otpauth://")) {
+    const { secret, ...keyUri } = parseKeyUri(secretOrUri);
+    const options = {
+      algorithm: keyUri.algorithm,
+      digits: keyUri.digits,
+      ...windowOption,
+    };
+    return keyUri.type === "hotp"
+      ? new Hotp(secret, { ...options, counter: counter ?? keyUri.counter })
+      : new Totp(secret, { ...options, stepSize: keyUri.period });
+  }
+  if (!Otp.validateSecret(secretOrUri)) {
+    throw new TypeError("The secret is not a valid Base32 string.");
+  }
+  const options = {
+    algorithm: algorithmOption(flags),
+    digits: integerOption(flags, "digits"),
+    ...windowOption,
+  };
+  switch (flags.type ?? "totp") {
+    case "totp":
+      return new Totp(secretOrUri, {
+        ...options,
+        stepSize: integerOption(flags, "period"),
+      });
+    case "hotp":
+      return new Hotp(secretOrUri, { ...options, counter });
+    default:
+      throw new UsageError(`Unknown type "${flags.type}".`);
+  }
+}
+
+function operand(operands: string[], index: number, name: string): string {
+  const value = operands[index];
+  if (value === undefined) throw new UsageError(`Missing ${name}.`);
+  return value;
+}
+
+function integerOption(flags: Flags, name: string): number | undefined {
+  const value = flags[name];
+  if (value === undefined) return undefined;
+  if (!/^-?\d+$/.test(value)) {
+    throw new TypeError(`The option --${name} must be an integer.`);
+  }
+  return parseInt(value);
+}
+
+function algorithmOption(flags: Flags): OtpAlgorithm | undefined {
+  if (flags.algorithm === undefined) return undefined;
+  const algorithm = parseOtpAlgorithm(flags.algorithm);
+  if (algorithm === undefined) {
+    throw new TypeError(`Unknown algorithm "${flags.algorithm}".`);
+  }
+  return algorithm;
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
@@ -0,0 +1,179 @@
+import { assert, assertEquals, assertMatch } from "./test_deps.ts";
+import { ExitCode, main } from "./cli.ts";
+import { Hotp } from "./hotp.ts";
+
+const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+async function run(
+  ...args: string[]
+): Promise<{ exitCode: ExitCode; output: string; errors: string }> {
+  const output: string[] = [];
+  const errors: string[] = [];
+  const exitCode = await main(args, {
+    print: (text) => output.push(text),
+    printError: (text) => errors.push(text),
+  });
+  return { exitCode, output: output.join("\n"), errors: errors.join("\n") };
+}
+
+Deno.test({
+  name: "secret generates a Base32 secret of the requested length",
+  async fn(): Promise<void> {
+    const { exitCode, output } = await run("secret");
+    assertEquals(exitCode, ExitCode.Success);
+    assertMatch(output, /^[A-Z2-7]{32}$/);
+
+    const json = await run("secret", "--bytes", "32", "--json");
+    assertMatch(JSON.parse(json.output).secret, /^[A-Z2-7]{52}=*$/);
+
+    assertEquals((await run("secret", "--bytes", "8")).exitCode, 2);
+    assertEquals(
+      (await run("secret", "--bytes", "8", "--allow-short")).exitCode,
+      ExitCode.Success,
+    );
+  },
+});
+
+Deno.test({
+  name: "generate prints RFC compliant codes",
+  async fn(): Promise<void> {
+    assertEquals(
+      (await run("generate", secret, "--time", "59", "--digits", "8")).output,
+      "94287082",
+    );
+    assertEquals(
+      (await run("generate", secret, "--type", "hotp", "--counter", "1"))
+        .output,
+      "287082",
+    );
+    const { output } = await run(
+      "generate",
+      secret,
+      "--time",
+      "59",
+      "--digits",
+      "8",
+      "--json",
+    );
+    assertEquals(JSON.parse(output), {
+      code: "94287082",
+      timeStep: 1,
+      secondsRemaining: 1,
+    });
+  },
+});
+
+Deno.test({
+  name: "generate accepts key URIs",
+  async fn(): Promise<void> {
+    const uri = new Hotp(secret, { counter: 1 }).toUri({ accountName: "a" });
+    assertEquals((await run("generate", uri)).output, "287082");
+    assertEquals(
+      (await run("generate", uri, "--counter", "2")).output,
+      "359152",
+    );
+  },
+});
+
+Deno.test({
+  name: "validate exits with 1 for invalid codes",
+  async fn(): Promise<void> {
+    const valid = await run("validate", secret, "287 082", "--type", "hotp");
+    assertEquals(valid.exitCode, ExitCode.Success);
+    assertEquals(valid.output, "valid (counter 1, delta 1, next counter 2)");
+
+    const invalid = await run(
+      "validate",
+      secret,
+      "287082",
+      "--type",
+      "hotp",
+      "--window",
+      "0",
+      "--json",
+    );
+    assertEquals(invalid.exitCode, ExitCode.InvalidCode);
+    assertEquals(JSON.parse(invalid.output), {
+      valid: false,
+      reason: "mismatch",
+    });
+
+    const totp = await run("validate", secret, "287082", "--time", "59");
+    assertEquals(totp.exitCode, ExitCode.Success);
+    assertEquals(totp.output, "valid (time step 1, delta 0)");
+
+    // Codes with leading zeros are not parsed as numbers
+    const leadingZero = await run(
+      "validate",
+      secret,
+      "037211",
+      "--time",
+      "1060",
+    );
+    assertEquals(leadingZero.exitCode, ExitCode.Success);
+    assertEquals(leadingZero.output, "valid (time step 35, delta 0)");
+  },
+});
+
+Deno.test({
+  name: "uri requires an account name",
+  async fn(): Promise<void> {
+    const { exitCode, errors } = await run("uri", secret);
+    assertEquals(exitCode, ExitCode.UsageError);
+    assert(errors.includes("--account"));
+
+    const { output } = await run(
+      "uri",
+      secret,
+      "--account",
+      "alice@example.com",
+      "--issuer",
+      "Example",
+    );
+    assertEquals(
+      output,
+      `otpauth://totp/Example:alice%40example.com?secret=${secret}&issuer=Example&algorithm=SHA1&digits=6&period=30`,
+    );
+  },
+});
+
+Deno.test({
+  name: "info prints the parameters without the secret",
+  async fn(): Promise<void> {
+    const hotp = new Hotp(secret, { counter: 5 });
+    const fromUri = await run(
+      "info",
+      hotp.toUri({ accountName: "alice" }),
+      "--json",
+    );
+    assertEquals(fromUri.exitCode, ExitCode.Success);
+    assertEquals(JSON.parse(fromUri.output).counter, 5);
+    assert(!fromUri.output.includes(secret));
+
+    const fromJson = await run("info", JSON.stringify(hotp));
+    assertEquals(fromJson.exitCode, ExitCode.Success);
+    assert(fromJson.output.includes("counter: 5"));
+    assert(!fromJson.output.includes(secret));
+  },
+});
+
+Deno.test({
+  name: "Invalid commands, options and inputs exit with 2",
+  async fn(): Promise<void> {
+    for (
+      const args of [
+        [],
+        ["unknown"],
+        ["generate"],
+        ["generate", secret, "--unknown"],
+        ["generate", secret, "--digits", "x"],
+        ["generate", secret, "--digits", "20"],
+        ["generate", secret, "--algorithm", "MD5"],
+        ["generate", "not base32!"],
+        ["info", "{"],
+      ]
+    ) {
+      assertEquals((await run(...args)).exitCode, ExitCode.UsageError);
+    }
+  },
+});
@@ -0,0 +1,103 @@
+/**
+ * Encoding of the 31 bit value truncated from the HMAC digest to a code of the configured length.
+ * The value is written in the base of the alphabet length, codes are compared ignoring spaces and case.
+ */
+export interface CodeEncoding {
+  /** Characters of the codes, the first character represents zero. */
+  readonly alphabet: string;
+  /** Writes the least significant character first like Steam Guard instead of the most significant first like decimal codes. */
+  readonly leastSignificantFirst?: boolean;
+  /** Default grouping of formatted codes, 0 disables the grouping and undefined groups by 3 or 4 characters. */
+  readonly grouping?: number;
+}
+
+export const CodeEncodings: {
+  /** Decimal digits of HOTP and TOTP (RFC 4226). */
+  readonly Decimal: CodeEncoding;
+  /** Upper case hexadecimal digits. */
+  readonly Hexadecimal: CodeEncoding;
+  /** 26 characters without ambiguous ones used by Steam Guard with 5 characters per code. */
+  readonly Steam: CodeEncoding;
+} = Object.freeze({
+  Decimal: Object.freeze({ alphabet: "0123456789" }),
+  Hexadecimal: Object.freeze({ alphabet: "0123456789ABCDEF" }),
+  Steam: Object.freeze({
+    alphabet: "23456789BCDFGHJKMNPQRTVWXY",
+    leastSignificantFirst: true,
+    grouping: 0,
+  }),
+});
+
+/**
+ * Checks the alphabet of the encoding.
+ * @param encoding
+ * @throws TypeError if the alphabet has less than two characters, contains whitespace or characters which only differ in case.
+ */
+export function validateCodeEncoding(encoding: CodeEncoding): void {
+  const characters = [...encoding.alphabet.toUpperCase()];
+  if (characters.length < 2) {
+    throw new TypeError("The alphabet must consist of at least 2 characters.");
+  }
+  if (characters.some((character) => /\s/.test(character))) {
+    throw new TypeError("The alphabet must not contain whitespace.");
+  }
+  if (new Set(characters).size !== characters.length) {
+    throw new TypeError(
+      "The alphabet must not contain duplicates, ignoring the case.",
+    );
+  }
+}
+
+/**
+ * Returns the smallest and the largest amount of characters of a code.
+ * Codes have at least as many possible values as the minimum amount of decimal digits
+ * and at most the amount of characters needed to represent 31 bit.
+ * @param encoding
+ * @param minimumDigits Minimum amount of decimal digits with an equal amount of possible values.
+ */
+export function codeLengthRange(
+  encoding: CodeEncoding,
+  minimumDigits: number,
+): { minimum: number; maximum: number } {
+  const base = BigInt([...encoding.alphabet].length);
+  const lengthFor = (values: bigint) => {
+    let length = 0;
+    for (let power = 1n; power < values; power *= base) length++;
+    return length;
+  };
+  return {
+    minimum: lengthFor(10n ** BigInt(minimumDigits)),
+    maximum: lengthFor(2n ** 31n),
+  };
+}
+
+/**
+ * Writes the value with the given amount of characters of the alphabet, higher places are cut off.
+ * @param value Truncated value of the HMAC digest.
+ * @param length
+ * @param encoding
+ */
+export function encodeCode(
+  value: number,
+  length: number,
+  encoding: CodeEncoding,
+): string {
+  const alphabet = [...encoding.alphabet];
+  const characters: string[] = [];
+  for (let index = 0; index < length; index++) {
+    characters.push(alphabet[value % alphabet.length]);
+    value = Math.floor(value / alphabet.length);
+  }
+  if (!encoding.leastSignificantFirst) characters.reverse();
+  return characters.join("");
+}
+
+/**
+ * Checks if the code only consists of characters of the alphabet, ignoring the case.
+ * @param code Code without spaces.
+ * @param encoding
+ */
+export function isEncodedCode(code: string, encoding: CodeEncoding): boolean {
+  const alphabet = new Set(encoding.alphabet.toUpperCase());
+  return [...code.toUpperCase()].every((character) => alphabet.has(character));
+}
@@ -0,0 +1,138 @@
+import { assert, assertEquals, assertThrows } from "./test_deps.ts";
+import { CodeEncodings, codeLengthRange, encodeCode } from "./code_encoding.ts";
+import { Hotp } from "./hotp.ts";
+import { ValidationFailureReason } from "./otp.ts";
+import { OtpProfiles } from "./profiles.ts";
+import { Totp } from "./totp.ts";
+
+const rfcSecret = new TextEncoder().encode("12345678901234567890");
+
+Deno.test({
+  name: "Steam Guard codes match known answers",
+  async fn(): Promise<void> {
+    const totp = new Totp(rfcSecret, { ...OtpProfiles.steamGuard });
+    const knownAnswers: [number, string][] = [
+      [59, "PV9M4"],
+      [1111111109, "PY4YB"],
+      [1111111111, "5PP3V"],
+      [1234567890, "VHHQY"],
+      [2000000000, "9N776"],
+      [20000000000, "R5DMB"],
+    ];
+    for (const [time, code] of knownAnswers) {
+      assertEquals(
+        await totp.generate({ movingFactor: time, sideEffects: false }),
+        code,
+      );
+      assert(
+        await totp.validate(code.toLowerCase(), {
+          movingFactor: time,
+          sideEffects: false,
+          validateAgainstWindow: true,
+        }),
+      );
+    }
+    // 0 is not part of the Steam alphabet
+    assertEquals(
+      (await totp.validateDetailed("PV9M0", {
+        movingFactor: 59,
+        sideEffects: false,
+        validateAgainstWindow: true,
+      })).reason,
+      ValidationFailureReason.Malformed,
+    );
+  },
+});
+
+Deno.test({
+  name: "Hexadecimal codes use the truncated value of the RFC",
+  async fn(): Promise<void> {
+    const hotp = new Hotp(rfcSecret, {
+      codeEncoding: CodeEncodings.Hexadecimal,
+    });
+    // Truncated values 0x4c93cf18 and 0x41397eea of RFC 4226 appendix D
+    assertEquals(await hotp.generate(), "93C F18");
+    assertEquals(
+      await hotp.generate({ formatCode: false, sideEffects: false }),
+      "397EEA",
+    );
+    assert(await hotp.validate("397 eea"));
+    assertEquals(hotp.counter, 2);
+  },
+});
+
+Deno.test({
+  name: "Codes can use an arbitrary alphabet",
+  async fn(): Promise<void> {
+    assertEquals(
+      encodeCode(0x4c93cf18, 6, { alphabet: "0123456789" }),
+      "755224",
+    );
+    assertEquals(encodeCode(3, 4, { alphabet: "ab" }), "aabb");
+    assertEquals(
+      encodeCode(3, 4, { alphabet: "ab", leastSignificantFirst: true }),
+      "bbaa",
+    );
+
+    const hotp = new Hotp(rfcSecret, {
+      digits: 20,
+      codeEncoding: { alphabet: "01" },
+    });
+    // Lower 20 bit of 0x4c93cf18
+    assertEquals(
+      await hotp.generate({ formatCode: false, sideEffects: false }),
+      "00111100111100011000",
+    );
+  },
+});
+
+Deno.test({
+  name: "The code length depends on the size of the alphabet",
+  fn(): void {
+    assertEquals(codeLengthRange(CodeEncodings.Decimal, 6), {
+      minimum: 6,
+      maximum: 10,
+    });
+    assertEquals(codeLengthRange(CodeEncodings.Steam, 6), {
+      minimum: 5,
+      maximum: 7,
+    });
+    assertEquals(codeLengthRange(CodeEncodings.Hexadecimal, 6), {
+      minimum: 5,
+      maximum: 8,
+    });
+    assertThrows(
+      () => new Totp(rfcSecret, { ...OtpProfiles.steamGuard, digits: 4 }),
+      RangeError,
+    );
+    assertThrows(
+      () => new Totp(rfcSecret, { ...OtpProfiles.steamGuard, digits: 8 }),
+      RangeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "Invalid alphabets are rejected",
+  fn(): void {
+    for (const alphabet of ["", "A", "AB C", "abA"]) {
+      assertThrows(
+        () => new Totp(rfcSecret, { codeEncoding: { alphabet } }),
+        TypeError,
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "Key URIs only support decimal codes",
+  fn(): void {
+    const totp = new Totp(rfcSecret, { ...OtpProfiles.steamGuard });
+    assertThrows(() => totp.toUri({ accountName: "john" }), TypeError);
+    assert(
+      new Totp(rfcSecret).toUri({ accountName: "john" }).startsWith(
+        "otpauth://totp/",
+      ),
+    );
+  },
+});
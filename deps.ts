@@ -3,3 +3,4 @@ export {
   decode,
   encode,
 } from "https://deno.land/std@0.146.0/encoding/base32.ts";
+export { parse } from "https://deno.land/std@0.146.0/flags/mod.ts";
@@ -0,0 +1,249 @@
+import { decode, encode } from "./deps.ts";
+import { Hotp } from "./hotp.ts";
+import type { HotpOptions } from "./hotp.ts";
+import type { OtpOptions } from "./otp.ts";
+import { Totp } from "./totp.ts";
+import type { TotpOptions } from "./totp.ts";
+import { cleanUserInputFormatAndAddBase32Padding } from "./util.ts";
+
+/**
+ * Otp secret encrypted with AES-GCM under a master key, which can be stored as JSON.
+ * The ciphertext is bound to a context like the account id, which is not stored and has to be passed again to decrypt it.
+ */
+export interface EncryptedSecret {
+  version: number;
+  /** Id of the master key the secret is encrypted with. */
+  keyId: string;
+  /** Base32 encoded initialization vector. */
+  iv: string;
+  /** Base32 encoded ciphertext including the authentication tag. */
+  ciphertext: string;
+}
+
+const encryptedSecretVersion = 1;
+const ivByteLength = 12;
+
+/**
+ * Master keys identified by key ids, which encrypt Otp secrets at rest.
+ * New secrets are encrypted with the current key and older keys are kept to decrypt and rewrap existing secrets.
+ * Decrypted secrets are only passed to the Otp constructors and never returned.
+ */
+export class MasterKeyring {
+  #keys = new Map<string, CryptoKey>();
+
+  #currentKeyId: string;
+  /** Id of the key new secrets are encrypted with. */
+  public get currentKeyId(): string {
+    return this.#currentKeyId;
+  }
+
+  /** Ids of all known keys. */
+  public get keyIds(): string[] {
+    return [...this.#keys.keys()];
+  }
+
+  /**
+   * @param keyId Id of the current key.
+   * @param key AES-GCM key which becomes the current key.
+   */
+  constructor(keyId: string, key: CryptoKey) {
+    this.#currentKeyId = keyId;
+    this.addKey(keyId, key);
+  }
+
+  /**
+   * Generates a random non-extractable 256 bit AES-GCM key.
+   */
+  static async generateKey(): Promise<CryptoKey> {
+    return await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+  }
+
+  /**
+   * Imports a raw 128 or 256 bit AES-GCM key as non-extractable key, e.g. from a key management service.
+   * @param raw
+   */
+  static async importKey(raw: Uint8Array): Promise<CryptoKey> {
+    return await crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+      "encrypt",
+      "decrypt",
+    ]);
+  }
+
+  /**
+   * Adds a key, e.g. an older key to decrypt existing secrets.
+   * @param keyId
+   * @param key
+   * @throws TypeError if the key is no AES-GCM key usable for encryption and decryption.
+   */
+  addKey(keyId: string, key: CryptoKey): void {
+    if (
+      key.algorithm.name !== "AES-GCM" || !key.usages.includes("encrypt") ||
+      !key.usages.includes("decrypt")
+    ) {
+      throw new TypeError(
+        `The master key "${keyId}" must be an AES-GCM key for encryption and decryption.`,
+      );
+    }
+    this.#keys.set(keyId, key);
+  }
+
+  /**
+   * Removes a key which is no longer used by any stored secret.
+   * @param keyId
+   * @throws TypeError if the key is the current key.
+   */
+  removeKey(keyId: string): void {
+    if (keyId === this.#currentKeyId) {
+      throw new TypeError("The current master key can not be removed.");
+    }
+    this.#keys.delete(keyId);
+  }
+
+  /**
+   * Selects the key new secrets are encrypted with, e.g. after adding a new key for a rotation.
+   * @param keyId
+   * @throws TypeError if the key is unknown.
+   */
+  setCurrentKey(keyId: string): void {
+    this.#getKey(keyId);
+    this.#currentKeyId = keyId;
+  }
+
+  /**
+   * Encrypts the secret with the current key.
+   * @param secret Secret in unencoded Uint8Array or Base32 encoded string representation.
+   * @param context Id of the account or record the secret belongs to, so it can not be swapped with the secret of another record.
+   */
+  async encrypt(
+    secret: Uint8Array | string,
+    context: string,
+  ): Promise<EncryptedSecret> {
+    if (typeof secret === "string") {
+      secret = decode(cleanUserInputFormatAndAddBase32Padding(secret));
+    }
+    const keyId = this.#currentKeyId;
+    const iv = crypto.getRandomValues(new Uint8Array(ivByteLength));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: additionalData(keyId, context) },
+      this.#getKey(keyId),
+      secret,
+    );
+    return {
+      version: encryptedSecretVersion,
+      keyId,
+      iv: encode(iv),
+      ciphertext: encode(new Uint8Array(ciphertext)),
+    };
+  }
+
+  /**
+   * Checks if the secret is not encrypted with the current key and should be rewrapped.
+   * @param encryptedSecret
+   */
+  needsRewrap(encryptedSecret: EncryptedSecret): boolean {
+    return encryptedSecret.keyId !== this.#currentKeyId;
+  }
+
+  /**
+   * Encrypts the secret with the current key without exposing the decrypted secret.
+   * @param encryptedSecret
+   * @param context Context the secret was encrypted with.
+   * @throws TypeError if the encrypted secret is malformed or its key is unknown.
+   * @throws DOMException if the encrypted secret was modified or encrypted with another key or context.
+   */
+  async rewrap(
+    encryptedSecret: EncryptedSecret,
+    context: string,
+  ): Promise<EncryptedSecret> {
+    return await this.encrypt(
+      await this.#decrypt(encryptedSecret, context),
+      context,
+    );
+  }
+
+  /**
+   * Creates a Hotp instance with the decrypted secret.
+   * @param encryptedSecret
+   * @param context Context the secret was encrypted with.
+   * @param options
+   * @throws TypeError if the encrypted secret is malformed or its key is unknown.
+   * @throws DOMException if the encrypted secret was modified or encrypted with another key or context.
+   */
+  async createHotp(
+    encryptedSecret: EncryptedSecret,
+    context: string,
+    options?: HotpOptions & OtpOptions,
+  ): Promise<Hotp> {
+    return new Hotp(await this.#decrypt(encryptedSecret, context), options);
+  }
+
+  /**
+   * Creates a Totp instance with the decrypted secret.
+   * @param encryptedSecret
+   * @param context Context the secret was encrypted with.
+   * @param options
+   * @throws TypeError if the encrypted secret is malformed or its key is unknown.
+   * @throws DOMException if the encrypted secret was modified or encrypted with another key or context.
+   */
+  async createTotp(
+    encryptedSecret: EncryptedSecret,
+    context: string,
+    options?: TotpOptions & OtpOptions,
+  ): Promise<Totp> {
+    return new Totp(await this.#decrypt(encryptedSecret, context), options);
+  }
+
+  async #decrypt(
+    encryptedSecret: EncryptedSecret,
+    context: string,
+  ): Promise<Uint8Array> {
+    if (encryptedSecret.version !== encryptedSecretVersion) {
+      throw new TypeError(
+        `The encrypted secret version "${encryptedSecret.version}" is not supported.`,
+      );
+    }
+    let iv: Uint8Array;
+    let ciphertext: Uint8Array;
+    try {
+      iv = decode(encryptedSecret.iv);
+      ciphertext = decode(encryptedSecret.ciphertext);
+    } catch (_) {
+      throw new TypeError("The encrypted secret is not valid Base32.");
+    }
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv,
+          additionalData: additionalData(encryptedSecret.keyId, context),
+        },
+        this.#getKey(encryptedSecret.keyId),
+        ciphertext,
+      ),
+    );
+  }
+
+  #getKey(keyId: string): CryptoKey {
+    const key = this.#keys.get(keyId);
+    if (key === undefined) {
+      throw new TypeError(`The master key "${keyId}" is unknown.`);
+    }
+    return key;
+  }
+}
+
+/**
+ * Binds the ciphertext to the format version, the key id and the context.
+ * JSON keeps the boundaries of the key id and the context unambiguous.
+ * @param keyId
+ * @param context
+ */
+function additionalData(keyId: string, context: string): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify(["otp-secret", encryptedSecretVersion, keyId, context]),
+  );
+}
@@ -0,0 +1,120 @@
+import {
+  assert,
+  assertEquals,
+  assertFalse,
+  assertNotEquals,
+  assertRejects,
+  assertThrows,
+} from "./test_deps.ts";
+import { MasterKeyring } from "./encrypted_secret.ts";
+
+const rfcSecret = new TextEncoder().encode("12345678901234567890");
+
+Deno.test({
+  name: "Encrypted secrets create working Hotp and Totp instances",
+  async fn(): Promise<void> {
+    const keyring = new MasterKeyring(
+      "2024-01",
+      await MasterKeyring.generateKey(),
+    );
+    const encryptedSecret = await keyring.encrypt(rfcSecret, "alice");
+    assertEquals(encryptedSecret.keyId, "2024-01");
+    assertFalse(JSON.stringify(encryptedSecret).includes("GEZDGNBV"));
+
+    const hotp = await keyring.createHotp(encryptedSecret, "alice", {
+      counter: 1,
+    });
+    assertEquals(await hotp.generate(), "287 082");
+    const totp = await keyring.createTotp(
+      await keyring.encrypt("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ", "bob"),
+      "bob",
+      { digits: 8 },
+    );
+    assertEquals(
+      await totp.generate({
+        movingFactor: 59,
+        formatCode: false,
+        sideEffects: false,
+      }),
+      "94287082",
+    );
+
+    // Every encryption uses a new initialization vector
+    assertNotEquals(
+      (await keyring.encrypt(rfcSecret, "alice")).ciphertext,
+      encryptedSecret.ciphertext,
+    );
+  },
+});
+
+Deno.test({
+  name: "Secrets are rewrapped with the new key after a rotation",
+  async fn(): Promise<void> {
+    const keyring = new MasterKeyring("old", await MasterKeyring.generateKey());
+    const encryptedSecret = await keyring.encrypt(rfcSecret, "alice");
+
+    keyring.addKey("new", await MasterKeyring.generateKey());
+    keyring.setCurrentKey("new");
+    assertEquals(keyring.keyIds, ["old", "new"]);
+    assert(keyring.needsRewrap(encryptedSecret));
+    const rewrapped = await keyring.rewrap(encryptedSecret, "alice");
+    assertEquals(rewrapped.keyId, "new");
+    assertFalse(keyring.needsRewrap(rewrapped));
+
+    keyring.removeKey("old");
+    await assertRejects(
+      () => keyring.createHotp(encryptedSecret, "alice"),
+      TypeError,
+      "unknown",
+    );
+    const hotp = await keyring.createHotp(rewrapped, "alice");
+    assertEquals(await hotp.generate(), "755 224");
+    assertThrows(() => keyring.removeKey("new"), TypeError);
+    assertThrows(() => keyring.setCurrentKey("old"), TypeError);
+  },
+});
+
+Deno.test({
+  name: "Modified encrypted secrets are rejected",
+  async fn(): Promise<void> {
+    const raw = crypto.getRandomValues(new Uint8Array(32));
+    const keyring = new MasterKeyring("a", await MasterKeyring.importKey(raw));
+    const encryptedSecret = await keyring.encrypt(rfcSecret, "alice");
+
+    // The key id is authenticated, even if another id refers to the same key
+    keyring.addKey("b", await MasterKeyring.importKey(raw));
+    await assertRejects(() =>
+      keyring.createHotp({ ...encryptedSecret, keyId: "b" }, "alice")
+    );
+    const otherIv = (await keyring.encrypt(rfcSecret, "alice")).iv;
+    await assertRejects(() =>
+      keyring.createHotp({ ...encryptedSecret, iv: otherIv }, "alice")
+    );
+    // Secrets swapped between accounts do not decrypt
+    const bobSecret = await keyring.encrypt(rfcSecret, "bob");
+    await assertRejects(() => keyring.createHotp(bobSecret, "alice"));
+    await assertRejects(() => keyring.rewrap(bobSecret, "alice"));
+    assert(await keyring.createHotp(bobSecret, "bob"));
+    await assertRejects(
+      () => keyring.createHotp({ ...encryptedSecret, version: 2 }, "alice"),
+      TypeError,
+    );
+    await assertRejects(
+      () =>
+        keyring.createHotp({ ...encryptedSecret, ciphertext: "01" }, "alice"),
+      TypeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "Only AES-GCM keys are accepted",
+  async fn(): Promise<void> {
+    const hmacKey = await crypto.subtle.generateKey(
+      { name: "HMAC", hash: "SHA-1" },
+      false,
+      ["sign"],
+    );
+    assertThrows(() => new MasterKeyring("hmac", hmacKey), TypeError);
+  },
+});
@@ -0,0 +1,70 @@
+import { Hotp } from "./hotp.ts";
+import { parseKeyUri } from "./key_uri.ts";
+import type { KeyUriLabel } from "./key_uri.ts";
+import { Ocra } from "./ocra.ts";
+import { parseSerializedOtp } from "./serialization.ts";
+import type { RestoreOptions } from "./serialization.ts";
+import { Totp } from "./totp.ts";
+
+/** Hotp or Totp instance with the label shown by authenticator apps. */
+export interface OtpAccount {
+  label: KeyUriLabel;
+  otp: Hotp | Totp;
+}
+
+/**
+ * Creates a Hotp or Totp instance from a key URI like `otpauth://totp/Issuer:account?secret=...`.
+ * Use parseKeyUri to access the account name and issuer of the label.
+ * @param uri
+ * @throws TypeError if the URI is malformed, the secret is missing or a parameter is unsupported.
+ * @throws RangeError if digits, period or counter are not in their allowed range.
+ */
+export function fromUri(uri: string): Hotp | Totp {
+  const keyUri = parseKeyUri(uri);
+  if (keyUri.type === "hotp") {
+    return new Hotp(keyUri.secret, {
+      algorithm: keyUri.algorithm,
+      digits: keyUri.digits,
+      counter: keyUri.counter,
+    });
+  }
+  return new Totp(keyUri.secret, {
+    algorithm: keyUri.algorithm,
+    digits: keyUri.digits,
+    stepSize: keyUri.period,
+  });
+}
+
+/**
+ * Creates a Hotp or Totp instance with the label of a key URI.
+ * @param uri
+ * @throws TypeError if the URI is malformed, the secret is missing or a parameter is unsupported.
+ * @throws RangeError if digits, period or counter are not in their allowed range.
+ */
+export function accountFromUri(uri: string): OtpAccount {
+  const { accountName, issuer } = parseKeyUri(uri);
+  return { label: { accountName, issuer }, otp: fromUri(uri) };
+}
+
+/**
+ * Restores a Hotp, Totp or Ocra instance serialized by toJSON depending on its type.
+ * @param json JSON string or already parsed object.
+ * @param options Runtime dependencies which are not serialized.
+ * @throws SyntaxError if the JSON string is malformed.
+ * @throws TypeError if the payload is not a valid serialized Otp.
+ * @throws RangeError if the version is not supported or a value is out of range.
+ */
+export function fromJSON(
+  json: unknown,
+  options?: RestoreOptions,
+): Hotp | Totp | Ocra {
+  const payload = parseSerializedOtp(json);
+  switch (payload.type) {
+    case "hotp":
+      return Hotp.fromJSON(payload, options);
+    case "totp":
+      return Totp.fromJSON(payload, options);
+    case "ocra":
+      return Ocra.fromJSON(payload, options);
+  }
+}
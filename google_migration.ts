@@ -0,0 +1,428 @@
+import { decode } from "./deps.ts";
+import type { OtpAccount } from "./factory.ts";
+import { Hotp } from "./hotp.ts";
+import type { KeyUriLabel } from "./key_uri.ts";
+import { OtpAlgorithm } from "./otp.ts";
+import { Totp } from "./totp.ts";
+import { decodeBase64, encodeBase64 } from "./util.ts";
+
+/** One QR code of a Google Authenticator export, which splits many accounts into batches. */
+export interface MigrationBatch {
+  accounts: OtpAccount[];
+  /** Zero-based index of the batch. */
+  batchIndex: number;
+  batchSize: number;
+  /** Random id shared by all batches of an export. */
+  batchId: number;
+}
+
+export interface MigrationExportOptions {
+  /** Accounts per batch and URI, defaults to 10, which fits in a readable QR code. */
+  accountsPerBatch?: number;
+  /** Id shared by all batches, defaults to a random 32 bit integer. */
+  batchId?: number;
+}
+
+// Field numbers and enums of the MigrationPayload protobuf message of Google Authenticator
+const payloadFields = {
+  otpParameters: 1,
+  version: 2,
+  batchSize: 3,
+  batchIndex: 4,
+  batchId: 5,
+};
+const parameterFields = {
+  secret: 1,
+  name: 2,
+  issuer: 3,
+  algorithm: 4,
+  digits: 5,
+  type: 6,
+  counter: 7,
+};
+const algorithms: Record<number, OtpAlgorithm> = {
+  1: OtpAlgorithm.SHA1,
+  2: OtpAlgorithm.SHA256,
+  3: OtpAlgorithm.SHA512,
+};
+const digitCounts: Record<number, number> = { 1: 6, 2: 8 };
+const otpTypes = { hotp: 1, totp: 2 };
+const payloadVersion = 1;
+
+/**
+ * Parses an `otpauth-migration://offline?data=...` URI of the "Transfer accounts" feature of Google Authenticator.
+ * Accounts with an unspecified algorithm or digits use SHA-1 and 6 digits like Google Authenticator.
+ * @param uri
+ * @throws TypeError if the URI or the payload is malformed or an account uses an unsupported algorithm or type.
+ */
+export function parseMigrationUri(uri: string): MigrationBatch {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch (_) {
+    throw new TypeError(`The migration URI "${uri}" is not a valid URI.`);
+  }
+  if (url.protocol !== "otpauth-migration:" || url.hostname !== "offline") {
+    throw new TypeError(
+      'The migration URI has to start with "otpauth-migration://offline".',
+    );
+  }
+  const data = url.searchParams.get("data");
+  if (data === null || data === "") {
+    throw new TypeError('The migration URI is missing the "data" parameter.');
+  }
+  // An unencoded plus sign of the Base64 data is decoded as space by URLSearchParams
+  const bytes = decodeBase64(data.replaceAll(" ", "+"));
+
+  const batch: MigrationBatch = {
+    accounts: [],
+    batchIndex: 0,
+    batchSize: 1,
+    batchId: 0,
+  };
+  for (const { field, value } of readMessage(bytes)) {
+    switch (field) {
+      case payloadFields.otpParameters:
+        batch.accounts.push(parseAccount(expectBytes(value)));
+        break;
+      case payloadFields.batchSize:
+        batch.batchSize = toInt32(value);
+        break;
+      case payloadFields.batchIndex:
+        batch.batchIndex = toInt32(value);
+        break;
+      case payloadFields.batchId:
+        batch.batchId = toInt32(value);
+        break;
+    }
+  }
+  if (
+    batch.batchSize < 1 || batch.batchIndex < 0 ||
+    batch.batchIndex >= batch.batchSize
+  ) {
+    throw new TypeError(
+      `The migration batch ${batch.batchIndex} of ${batch.batchSize} is invalid.`,
+    );
+  }
+  return batch;
+}
+
+/**
+ * Parses all URIs of a Google Authenticator export and returns the accounts in the order of the batches.
+ * @param uris URIs of all batches in any order.
+ * @throws TypeError if a URI is malformed, the batches belong to different exports or a batch is missing or duplicated.
+ */
+export function parseMigrationUris(uris: string[]): OtpAccount[] {
+  const batches = uris.map(parseMigrationUri);
+  if (batches.length === 0) {
+    throw new TypeError("At least one migration URI is required.");
+  }
+  const { batchId, batchSize } = batches[0];
+  if (
+    batches.some((batch) =>
+      batch.batchId !== batchId || batch.batchSize !== batchSize
+    )
+  ) {
+    throw new TypeError("The migration URIs belong to different exports.");
+  }
+  batches.sort((a, b) => a.batchIndex - b.batchIndex);
+  for (let index = 0; index < batchSize; index++) {
+    if (batches[index]?.batchIndex !== index) {
+      throw new TypeError(
+        `The migration batch ${
+          index + 1
+        } of ${batchSize} is missing or duplicated.`,
+      );
+    }
+  }
+  if (batches.length > batchSize) {
+    throw new TypeError("The migration URIs contain duplicated batches.");
+  }
+  return batches.flatMap((batch) => batch.accounts);
+}
+
+/**
+ * Creates `otpauth-migration://offline?data=...` URIs which can be imported by Google Authenticator, one per batch.
+ * @param accounts
+ * @param options
+ * @throws RangeError if an account uses digits other than 6 or 8, a step size other than 30 or a t0 other than 0,
+ * which the format can not express, or accountsPerBatch is not a positive integer.
+ * @throws TypeError if an account does not use decimal codes.
+ */
+export function createMigrationUris(
+  accounts: OtpAccount[],
+  options?: MigrationExportOptions,
+): string[] {
+  const accountsPerBatch = options?.accountsPerBatch ?? 10;
+  if (!Number.isSafeInteger(accountsPerBatch) || accountsPerBatch < 1) {
+    throw new RangeError("The accounts per batch must be a positive integer.");
+  }
+  const batchId = options?.batchId ??
+    crypto.getRandomValues(new Int32Array(1))[0];
+  const parameters = accounts.map(writeAccount);
+  const batchSize = Math.max(
+    1,
+    Math.ceil(parameters.length / accountsPerBatch),
+  );
+  const uris: string[] = [];
+  for (let batchIndex = 0; batchIndex < batchSize; batchIndex++) {
+    const writer = new ProtobufWriter();
+    for (
+      const account of parameters.slice(
+        batchIndex * accountsPerBatch,
+        (batchIndex + 1) * accountsPerBatch,
+      )
+    ) {
+      writer.bytes(payloadFields.otpParameters, account);
+    }
+    writer.varint(payloadFields.version, payloadVersion);
+    writer.varint(payloadFields.batchSize, batchSize);
+    writer.varint(payloadFields.batchIndex, batchIndex);
+    writer.varint(payloadFields.batchId, batchId);
+    const data = encodeBase64(writer.finish());
+    uris.push(
+      `otpauth-migration://offline?data=${encodeURIComponent(data)}`,
+    );
+  }
+  return uris;
+}
+
+function parseAccount(bytes: Uint8Array): OtpAccount {
+  let secret: Uint8Array | undefined;
+  let name = "";
+  let issuer = "";
+  let algorithm = OtpAlgorithm.SHA1;
+  let digits = 6;
+  let type: number | undefined;
+  let counter = 0;
+  for (const { field, value } of readMessage(bytes)) {
+    switch (field) {
+      case parameterFields.secret:
+        secret = expectBytes(value);
+        break;
+      case parameterFields.name:
+        name = new TextDecoder().decode(expectBytes(value));
+        break;
+      case parameterFields.issuer:
+        issuer = new TextDecoder().decode(expectBytes(value));
+        break;
+      case parameterFields.algorithm: {
+        const number = toInt32(value);
+        // Zero is unspecified and uses the default
+        if (number !== 0) {
+          if (!(number in algorithms)) {
+            throw new TypeError(
+              `The migration algorithm ${number} is not supported.`,
+            );
+          }
+          algorithm = algorithms[number];
+        }
+        break;
+      }
+      case parameterFields.digits: {
+        const number = toInt32(value);
+        if (number !== 0) {
+          if (!(number in digitCounts)) {
+            throw new TypeError(
+              `The migration digit count ${number} is not supported.`,
+            );
+          }
+          digits = digitCounts[number];
+        }
+        break;
+      }
+      case parameterFields.type:
+        type = toInt32(value);
+        break;
+      case parameterFields.counter: {
+        const number = BigInt.asIntN(64, expectVarint(value));
+        if (number < 0n || number > BigInt(Number.MAX_SAFE_INTEGER)) {
+          throw new TypeError(
+            `The migration counter ${number} is out of range.`,
+          );
+        }
+        counter = Number(number);
+        break;
+      }
+    }
+  }
+  if (secret === undefined || secret.length === 0) {
+    throw new TypeError("A migration account is missing the secret.");
+  }
+  const label = parseLabel(name, issuer);
+  switch (type) {
+    case otpTypes.hotp:
+      return { label, otp: new Hotp(secret, { algorithm, digits, counter }) };
+    case otpTypes.totp:
+      return { label, otp: new Totp(secret, { algorithm, digits }) };
+    default:
+      throw new TypeError(
+        `The migration type ${type ?? 0} of "${name}" is not supported.`,
+      );
+  }
+}
+
+/**
+ * Google Authenticator stores labels like `Issuer:account` in the name and repeats the issuer in its own field.
+ * @param name
+ * @param issuer
+ */
+function parseLabel(name: string, issuer: string): KeyUriLabel {
+  const separator = name.indexOf(":");
+  let accountName = name;
+  if (separator !== -1) {
+    const prefix = name.slice(0, separator).trim();
+    if (issuer === "" || prefix === issuer) {
+      issuer = prefix;
+      accountName = name.slice(separator + 1);
+    }
+  }
+  accountName = accountName.trim();
+  return issuer !== "" ? { accountName, issuer } : { accountName };
+}
+
+function writeAccount({ label, otp }: OtpAccount): Uint8Array {
+  const serialized = otp.toJSON();
+  if (serialized.codeEncoding !== undefined) {
+    throw new TypeError("Google Authenticator only supports decimal codes.");
+  }
+  const digits = Object.entries(digitCounts).find(([, count]) =>
+    count === otp.digits
+  );
+  if (digits === undefined) {
+    throw new RangeError(
+      `Google Authenticator only supports 6 or 8 digits, but "${label.accountName}" uses ${otp.digits}.`,
+    );
+  }
+  if (otp instanceof Totp && (otp.stepSize !== 30 || otp.t0 !== 0)) {
+    throw new RangeError(
+      `Google Authenticator only supports a step size of 30 seconds starting at 0, which "${label.accountName}" does not use.`,
+    );
+  }
+  const algorithm = Object.entries(algorithms).find(([, value]) =>
+    value === otp.algorithm
+  );
+  const writer = new ProtobufWriter();
+  writer.bytes(parameterFields.secret, decode(serialized.secret));
+  writer.string(parameterFields.name, label.accountName);
+  if (label.issuer !== undefined) {
+    writer.string(parameterFields.issuer, label.issuer);
+  }
+  writer.varint(parameterFields.algorithm, Number(algorithm?.[0]));
+  writer.varint(parameterFields.digits, Number(digits[0]));
+  if (otp instanceof Hotp) {
+    writer.varint(parameterFields.type, otpTypes.hotp);
+    writer.varint(parameterFields.counter, otp.counter);
+  } else {
+    writer.varint(parameterFields.type, otpTypes.totp);
+  }
+  return writer.finish();
+}
+
+type FieldValue = bigint | Uint8Array;
+
+/**
+ * Reads the fields of a protobuf message, skipping fixed size fields which the migration format does not use.
+ * @param bytes
+ * @throws TypeError if the message is truncated or uses an unsupported wire type.
+ */
+function* readMessage(
+  bytes: Uint8Array,
+): Generator<{ field: number; value: FieldValue }> {
+  let offset = 0;
+  const readVarint = (): bigint => {
+    let result = 0n;
+    for (let shift = 0n; shift < 70n; shift += 7n) {
+      if (offset >= bytes.length) {
+        throw new TypeError("The migration data is truncated.");
+      }
+      const byte = bytes[offset++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return BigInt.asUintN(64, result);
+    }
+    throw new TypeError("The migration data contains an invalid varint.");
+  };
+  const skip = (length: number) => {
+    if (offset + length > bytes.length) {
+      throw new TypeError("The migration data is truncated.");
+    }
+    offset += length;
+  };
+  while (offset < bytes.length) {
+    const key = readVarint();
+    const field = Number(key >> 3n);
+    switch (Number(key & 7n)) {
+      case 0:
+        yield { field, value: readVarint() };
+        break;
+      case 1:
+        skip(8);
+        break;
+      case 2: {
+        const length = Number(readVarint());
+        const start = offset;
+        skip(length);
+        yield { field, value: bytes.subarray(start, offset) };
+        break;
+      }
+      case 5:
+        skip(4);
+        break;
+      default:
+        throw new TypeError(
+          `The migration data uses the unsupported wire type ${key & 7n}.`,
+        );
+    }
+  }
+}
+
+function expectBytes(value: FieldValue): Uint8Array {
+  if (typeof value === "bigint") {
+    throw new TypeError("The migration data contains an unexpected varint.");
+  }
+  return value;
+}
+
+function expectVarint(value: FieldValue): bigint {
+  if (typeof value !== "bigint") {
+    throw new TypeError("The migration data contains an unexpected field.");
+  }
+  return value;
+}
+
+function toInt32(value: FieldValue): number {
+  return Number(BigInt.asIntN(32, expectVarint(value)));
+}
+
+/** Writes the protobuf wire format of varint and length-delimited fields. */
+class ProtobufWriter {
+  #bytes: number[] = [];
+
+  varint(field: number, value: number): void {
+    this.#writeVarint(BigInt(field << 3));
+    // Negative numbers are written as 64 bit two's complement like protobuf does for int32
+    this.#writeVarint(BigInt.asUintN(64, BigInt(value)));
+  }
+
+  bytes(field: number, value: Uint8Array): void {
+    this.#writeVarint(BigInt((field << 3) | 2));
+    this.#writeVarint(BigInt(value.length));
+    this.#bytes.push(...value);
+  }
+
+  string(field: number, value: string): void {
+    this.bytes(field, new TextEncoder().encode(value));
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.#bytes);
+  }
+
+  #writeVarint(value: bigint): void {
+    while (value > 0x7fn) {
+      this.#bytes.push(Number(value & 0x7fn) | 0x80);
+      value >>= 7n;
+    }
+    this.#bytes.push(Number(value));
+  }
+}
@@ -0,0 +1,142 @@
+import { assertEquals, assertThrows } from "./test_deps.ts";
+import {
+  createMigrationUris,
+  parseMigrationUri,
+  parseMigrationUris,
+} from "./google_migration.ts";
+import { Hotp } from "./hotp.ts";
+import { OtpAlgorithm } from "./otp.ts";
+import { Totp } from "./totp.ts";
+
+// Totp of the secret "Hello!\xde\xad\xbe\xef" named "Example:alice@google.com" with the issuer "Example"
+const exportedUri =
+  "otpauth-migration://offline?data=CjUKCkhlbGxvId6tvu8SGEV4YW1wbGU6YWxpY2VAZ29vZ2xlLmNvbRoHRXhhbXBsZSABKAEwAhABGAEgACjr4JuP%2Bv%2F%2F%2F%2F8B";
+
+Deno.test({
+  name: "parseMigrationUri() parses a Google Authenticator export",
+  async fn(): Promise<void> {
+    const batch = parseMigrationUri(exportedUri);
+    assertEquals(batch.batchIndex, 0);
+    assertEquals(batch.batchSize, 1);
+    assertEquals(batch.batchId, -1578700693);
+    assertEquals(batch.accounts.length, 1);
+    const [{ label, otp }] = batch.accounts;
+    assertEquals(label, { accountName: "alice@google.com", issuer: "Example" });
+    assertEquals(otp.toJSON().secret, "JBSWY3DPEHPK3PXP");
+    assertEquals(otp.algorithm, OtpAlgorithm.SHA1);
+    assertEquals(otp.digits, 6);
+    assertEquals(
+      await otp.generate({ movingFactor: 0, sideEffects: false }),
+      await new Totp("JBSWY3DPEHPK3PXP").generate({
+        movingFactor: 0,
+        sideEffects: false,
+      }),
+    );
+  },
+});
+
+Deno.test({
+  name: "createMigrationUris() round trips Hotp and Totp accounts",
+  async fn(): Promise<void> {
+    const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+    const accounts = [
+      {
+        label: { accountName: "alice", issuer: "Example" },
+        otp: new Hotp(secret, {
+          algorithm: OtpAlgorithm.SHA512,
+          digits: 8,
+          counter: 2 ** 40,
+        }),
+      },
+      {
+        label: { accountName: "bob" },
+        otp: new Totp(secret, { algorithm: OtpAlgorithm.SHA256 }),
+      },
+    ];
+    const uris = createMigrationUris(accounts, { batchId: -5 });
+    assertEquals(uris.length, 1);
+    assertEquals(parseMigrationUri(uris[0]).batchId, -5);
+    const restored = parseMigrationUris(uris);
+    assertEquals(restored.map(({ label }) => label), [
+      { accountName: "alice", issuer: "Example" },
+      { accountName: "bob" },
+    ]);
+    assertEquals(
+      restored.map(({ otp }) => otp.toJSON()),
+      accounts.map(({ otp }) => otp.toJSON()),
+    );
+    assertEquals(
+      await restored[1].otp.generate({ movingFactor: 59, sideEffects: false }),
+      await accounts[1].otp.generate({ movingFactor: 59, sideEffects: false }),
+    );
+  },
+});
+
+Deno.test({
+  name: "Exports are split into batches which have to be complete",
+  fn(): void {
+    const accounts = Array.from({ length: 5 }, (_, index) => ({
+      label: { accountName: `account${index}` },
+      otp: new Totp("JBSWY3DPEHPK3PXP"),
+    }));
+    const uris = createMigrationUris(accounts, { accountsPerBatch: 2 });
+    assertEquals(uris.length, 3);
+    assertEquals(
+      parseMigrationUris([uris[2], uris[0], uris[1]]).map(({ label }) =>
+        label.accountName
+      ),
+      accounts.map(({ label }) => label.accountName),
+    );
+    assertThrows(() => parseMigrationUris([uris[0], uris[2]]), TypeError);
+    assertThrows(
+      () => parseMigrationUris([...uris, uris[0]]),
+      TypeError,
+      "duplicated",
+    );
+    assertThrows(
+      () => parseMigrationUris([uris[0], ...createMigrationUris(accounts)]),
+      TypeError,
+      "different exports",
+    );
+  },
+});
+
+Deno.test({
+  name: "Rejects parameters the format can not express",
+  fn(): void {
+    const label = { accountName: "alice" };
+    assertThrows(
+      () =>
+        createMigrationUris([
+          { label, otp: new Totp("JBSWY3DPEHPK3PXP", { digits: 7 }) },
+        ]),
+      RangeError,
+    );
+    assertThrows(
+      () =>
+        createMigrationUris([
+          { label, otp: new Totp("JBSWY3DPEHPK3PXP", { stepSize: 60 }) },
+        ]),
+      RangeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "Rejects malformed URIs and payloads",
+  fn(): void {
+    for (
+      const uri of [
+        "otpauth://totp/alice?secret=JBSWY3DPEHPK3PXP",
+        "otpauth-migration://offline",
+        "otpauth-migration://offline?data=%%%",
+        // Truncated account
+        "otpauth-migration://offline?data=CjUKCkhlbGxv",
+        // Account without a type
+        "otpauth-migration://offline?data=CgYKBEhlbGw%3D",
+      ]
+    ) {
+      assertThrows(() => parseMigrationUri(uri), TypeError);
+    }
+  },
+});
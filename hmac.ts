@@ -0,0 +1,452 @@
+import { OtpAlgorithm } from "./otp.ts";
+
+/**
+ * Calculates HMAC signatures for the Otp classes.
+ * Replacing the default WebCrypto implementation allows runtimes without `crypto.subtle`, e.g. insecure browser contexts.
+ */
+export interface HmacProvider {
+  /**
+   * Signs the message with the key.
+   * @param algorithm Hash function of the HMAC.
+   * @param key
+   * @param message
+   */
+  sign(
+    algorithm: OtpAlgorithm,
+    key: Uint8Array,
+    message: Uint8Array,
+  ): Promise<Uint8Array>;
+}
+
+/** HMAC provider using the WebCrypto API, which is the default. */
+export const webCryptoHmacProvider: HmacProvider = {
+  async sign(algorithm, key, message) {
+    const hmacKey = await crypto.subtle.importKey(
+      "raw",
+      key,
+      { name: "HMAC", hash: algorithm },
+      false,
+      ["sign"],
+    );
+    return new Uint8Array(await crypto.subtle.sign("HMAC", hmacKey, message));
+  },
+};
+
+/** HMAC provider using the synchronous TypeScript implementation of hmac, which does not need the WebCrypto API. */
+export const pureHmacProvider: HmacProvider = {
+  sign: (algorithm, key, message) =>
+    Promise.resolve(hmac(algorithm, key, message)),
+};
+
+interface HashFunction {
+  blockSize: number;
+  hash(data: Uint8Array): Uint8Array;
+}
+
+/**
+ * Calculates the HMAC ([RFC 2104](https://www.rfc-editor.org/rfc/rfc2104)) of the message synchronously in TypeScript.
+ * @param algorithm
+ * @param key
+ * @param message
+ * @throws RangeError if the algorithm is not supported.
+ */
+export function hmac(
+  algorithm: OtpAlgorithm,
+  key: Uint8Array,
+  message: Uint8Array,
+): Uint8Array {
+  const { blockSize, hash } = hashFunction(algorithm);
+  const paddedKey = new Uint8Array(blockSize);
+  paddedKey.set(key.length > blockSize ? hash(key) : key);
+  const inner = new Uint8Array(blockSize + message.length);
+  const outer = new Uint8Array(blockSize);
+  for (let index = 0; index < blockSize; index++) {
+    inner[index] = paddedKey[index] ^ 0x36;
+    outer[index] = paddedKey[index] ^ 0x5c;
+  }
+  inner.set(message, blockSize);
+  return hash(concatBytes(outer, hash(inner)));
+}
+
+/**
+ * Calculates the SHA digest of the data synchronously in TypeScript.
+ * @param algorithm
+ * @param data
+ * @throws RangeError if the algorithm is not supported.
+ */
+export function digest(algorithm: OtpAlgorithm, data: Uint8Array): Uint8Array {
+  return hashFunction(algorithm).hash(data);
+}
+
+function hashFunction(algorithm: OtpAlgorithm): HashFunction {
+  switch (algorithm) {
+    case OtpAlgorithm.SHA1:
+      return { blockSize: 64, hash: sha1 };
+    case OtpAlgorithm.SHA256:
+      return { blockSize: 64, hash: sha256 };
+    case OtpAlgorithm.SHA512:
+      return { blockSize: 128, hash: sha512 };
+    default:
+      throw new RangeError(`The algorithm "${algorithm}" is not supported.`);
+  }
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+}
+
+/**
+ * Appends the padding of the Merkle–Damgård construction, which ends with the bit length of the data.
+ * @param data
+ * @param blockSize
+ */
+function pad(data: Uint8Array, blockSize: number): DataView {
+  const lengthSize = blockSize / 8;
+  const paddedLength = Math.ceil((data.length + 1 + lengthSize) / blockSize) *
+    blockSize;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  // The bit length is below 2^53, so the upper 32 bits are enough for the high part
+  view.setUint32(paddedLength - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(paddedLength - 4, (data.length * 8) >>> 0);
+  return view;
+}
+
+function rotateLeft(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+function rotateRight(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+function sha1(data: Uint8Array): Uint8Array {
+  const view = pad(data, 64);
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const words = new Uint32Array(80);
+  for (let offset = 0; offset < view.byteLength; offset += 64) {
+    for (let index = 0; index < 16; index++) {
+      words[index] = view.getUint32(offset + index * 4);
+    }
+    for (let index = 16; index < 80; index++) {
+      words[index] = rotateLeft(
+        words[index - 3] ^ words[index - 8] ^ words[index - 14] ^
+          words[index - 16],
+        1,
+      );
+    }
+    let [a, b, c, d, e] = state;
+    for (let index = 0; index < 80; index++) {
+      let f: number;
+      let k: number;
+      if (index < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (index < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (index < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const temp = (rotateLeft(a, 5) + f + e + k + words[index]) >>> 0;
+      e = d;
+      d = c;
+      c = rotateLeft(b, 30);
+      b = a;
+      a = temp;
+    }
+    state[0] = (state[0] + a) >>> 0;
+    state[1] = (state[1] + b) >>> 0;
+    state[2] = (state[2] + c) >>> 0;
+    state[3] = (state[3] + d) >>> 0;
+    state[4] = (state[4] + e) >>> 0;
+  }
+  return wordsToBytes(state);
+}
+
+/** Fractional parts of the cube roots of the first 64 primes. */
+const sha256RoundConstants = [
+  0x428a2f98,
+  0x71374491,
+  0xb5c0fbcf,
+  0xe9b5dba5,
+  0x3956c25b,
+  0x59f111f1,
+  0x923f82a4,
+  0xab1c5ed5,
+  0xd807aa98,
+  0x12835b01,
+  0x243185be,
+  0x550c7dc3,
+  0x72be5d74,
+  0x80deb1fe,
+  0x9bdc06a7,
+  0xc19bf174,
+  0xe49b69c1,
+  0xefbe4786,
+  0x0fc19dc6,
+  0x240ca1cc,
+  0x2de92c6f,
+  0x4a7484aa,
+  0x5cb0a9dc,
+  0x76f988da,
+  0x983e5152,
+  0xa831c66d,
+  0xb00327c8,
+  0xbf597fc7,
+  0xc6e00bf3,
+  0xd5a79147,
+  0x06ca6351,
+  0x14292967,
+  0x27b70a85,
+  0x2e1b2138,
+  0x4d2c6dfc,
+  0x53380d13,
+  0x650a7354,
+  0x766a0abb,
+  0x81c2c92e,
+  0x92722c85,
+  0xa2bfe8a1,
+  0xa81a664b,
+  0xc24b8b70,
+  0xc76c51a3,
+  0xd192e819,
+  0xd6990624,
+  0xf40e3585,
+  0x106aa070,
+  0x19a4c116,
+  0x1e376c08,
+  0x2748774c,
+  0x34b0bcb5,
+  0x391c0cb3,
+  0x4ed8aa4a,
+  0x5b9cca4f,
+  0x682e6ff3,
+  0x748f82ee,
+  0x78a5636f,
+  0x84c87814,
+  0x8cc70208,
+  0x90befffa,
+  0xa4506ceb,
+  0xbef9a3f7,
+  0xc67178f2,
+];
+
+function sha256(data: Uint8Array): Uint8Array {
+  const view = pad(data, 64);
+  const state = [
+    0x6a09e667,
+    0xbb67ae85,
+    0x3c6ef372,
+    0xa54ff53a,
+    0x510e527f,
+    0x9b05688c,
+    0x1f83d9ab,
+    0x5be0cd19,
+  ];
+  const words = new Uint32Array(64);
+  for (let offset = 0; offset < view.byteLength; offset += 64) {
+    for (let index = 0; index < 16; index++) {
+      words[index] = view.getUint32(offset + index * 4);
+    }
+    for (let index = 16; index < 64; index++) {
+      const w15 = words[index - 15];
+      const w2 = words[index - 2];
+      const s0 = rotateRight(w15, 7) ^ rotateRight(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotateRight(w2, 17) ^ rotateRight(w2, 19) ^ (w2 >>> 10);
+      words[index] = words[index - 16] + s0 + words[index - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let index = 0; index < 64; index++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + sha256RoundConstants[index] +
+        words[index]) >>> 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+    state[0] = (state[0] + a) >>> 0;
+    state[1] = (state[1] + b) >>> 0;
+    state[2] = (state[2] + c) >>> 0;
+    state[3] = (state[3] + d) >>> 0;
+    state[4] = (state[4] + e) >>> 0;
+    state[5] = (state[5] + f) >>> 0;
+    state[6] = (state[6] + g) >>> 0;
+    state[7] = (state[7] + h) >>> 0;
+  }
+  return wordsToBytes(state);
+}
+
+function wordsToBytes(words: number[]): Uint8Array {
+  const bytes = new Uint8Array(words.length * 4);
+  const view = new DataView(bytes.buffer);
+  words.forEach((word, index) => view.setUint32(index * 4, word >>> 0));
+  return bytes;
+}
+
+/** Fractional parts of the cube roots of the first 80 primes. */
+const sha512RoundConstants = [
+  0x428a2f98d728ae22n,
+  0x7137449123ef65cdn,
+  0xb5c0fbcfec4d3b2fn,
+  0xe9b5dba58189dbbcn,
+  0x3956c25bf348b538n,
+  0x59f111f1b605d019n,
+  0x923f82a4af194f9bn,
+  0xab1c5ed5da6d8118n,
+  0xd807aa98a3030242n,
+  0x12835b0145706fben,
+  0x243185be4ee4b28cn,
+  0x550c7dc3d5ffb4e2n,
+  0x72be5d74f27b896fn,
+  0x80deb1fe3b1696b1n,
+  0x9bdc06a725c71235n,
+  0xc19bf174cf692694n,
+  0xe49b69c19ef14ad2n,
+  0xefbe4786384f25e3n,
+  0x0fc19dc68b8cd5b5n,
+  0x240ca1cc77ac9c65n,
+  0x2de92c6f592b0275n,
+  0x4a7484aa6ea6e483n,
+  0x5cb0a9dcbd41fbd4n,
+  0x76f988da831153b5n,
+  0x983e5152ee66dfabn,
+  0xa831c66d2db43210n,
+  0xb00327c898fb213fn,
+  0xbf597fc7beef0ee4n,
+  0xc6e00bf33da88fc2n,
+  0xd5a79147930aa725n,
+  0x06ca6351e003826fn,
+  0x142929670a0e6e70n,
+  0x27b70a8546d22ffcn,
+  0x2e1b21385c26c926n,
+  0x4d2c6dfc5ac42aedn,
+  0x53380d139d95b3dfn,
+  0x650a73548baf63den,
+  0x766a0abb3c77b2a8n,
+  0x81c2c92e47edaee6n,
+  0x92722c851482353bn,
+  0xa2bfe8a14cf10364n,
+  0xa81a664bbc423001n,
+  0xc24b8b70d0f89791n,
+  0xc76c51a30654be30n,
+  0xd192e819d6ef5218n,
+  0xd69906245565a910n,
+  0xf40e35855771202an,
+  0x106aa07032bbd1b8n,
+  0x19a4c116b8d2d0c8n,
+  0x1e376c085141ab53n,
+  0x2748774cdf8eeb99n,
+  0x34b0bcb5e19b48a8n,
+  0x391c0cb3c5c95a63n,
+  0x4ed8aa4ae3418acbn,
+  0x5b9cca4f7763e373n,
+  0x682e6ff3d6b2b8a3n,
+  0x748f82ee5defb2fcn,
+  0x78a5636f43172f60n,
+  0x84c87814a1f0ab72n,
+  0x8cc702081a6439ecn,
+  0x90befffa23631e28n,
+  0xa4506cebde82bde9n,
+  0xbef9a3f7b2c67915n,
+  0xc67178f2e372532bn,
+  0xca273eceea26619cn,
+  0xd186b8c721c0c207n,
+  0xeada7dd6cde0eb1en,
+  0xf57d4f7fee6ed178n,
+  0x06f067aa72176fban,
+  0x0a637dc5a2c898a6n,
+  0x113f9804bef90daen,
+  0x1b710b35131c471bn,
+  0x28db77f523047d84n,
+  0x32caab7b40c72493n,
+  0x3c9ebe0a15c9bebcn,
+  0x431d67c49c100d4cn,
+  0x4cc5d4becb3e42b6n,
+  0x597f299cfc657e2an,
+  0x5fcb6fab3ad6faecn,
+  0x6c44198c4a475817n,
+];
+
+const mask64 = 0xffffffffffffffffn;
+
+function rotateRight64(value: bigint, bits: bigint): bigint {
+  return ((value >> bits) | (value << (64n - bits))) & mask64;
+}
+
+function sha512(data: Uint8Array): Uint8Array {
+  const view = pad(data, 128);
+  const state = [
+    0x6a09e667f3bcc908n,
+    0xbb67ae8584caa73bn,
+    0x3c6ef372fe94f82bn,
+    0xa54ff53a5f1d36f1n,
+    0x510e527fade682d1n,
+    0x9b05688c2b3e6c1fn,
+    0x1f83d9abfb41bd6bn,
+    0x5be0cd19137e2179n,
+  ];
+  const words = new BigUint64Array(80);
+  for (let offset = 0; offset < view.byteLength; offset += 128) {
+    for (let index = 0; index < 16; index++) {
+      words[index] = view.getBigUint64(offset + index * 8);
+    }
+    for (let index = 16; index < 80; index++) {
+      const w15 = words[index - 15];
+      const w2 = words[index - 2];
+      const s0 = rotateRight64(w15, 1n) ^ rotateRight64(w15, 8n) ^ (w15 >> 7n);
+      const s1 = rotateRight64(w2, 19n) ^ rotateRight64(w2, 61n) ^ (w2 >> 6n);
+      // The typed array truncates the sum to 64 bits
+      words[index] = words[index - 16] + s0 + words[index - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let index = 0; index < 80; index++) {
+      const s1 = rotateRight64(e, 14n) ^ rotateRight64(e, 18n) ^
+        rotateRight64(e, 41n);
+      const choice = (e & f) ^ (~e & mask64 & g);
+      const temp1 = h + s1 + choice + sha512RoundConstants[index] +
+        words[index];
+      const s0 = rotateRight64(a, 28n) ^ rotateRight64(a, 34n) ^
+        rotateRight64(a, 39n);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) & mask64;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + s0 + majority) & mask64;
+    }
+    state[0] = (state[0] + a) & mask64;
+    state[1] = (state[1] + b) & mask64;
+    state[2] = (state[2] + c) & mask64;
+    state[3] = (state[3] + d) & mask64;
+    state[4] = (state[4] + e) & mask64;
+    state[5] = (state[5] + f) & mask64;
+    state[6] = (state[6] + g) & mask64;
+    state[7] = (state[7] + h) & mask64;
+  }
+  const bytes = new Uint8Array(64);
+  const output = new DataView(bytes.buffer);
+  state.forEach((word, index) => output.setBigUint64(index * 8, word));
+  return bytes;
+}
@@ -0,0 +1,95 @@
+import { assertEquals, assertThrows } from "./test_deps.ts";
+import {
+  digest,
+  hmac,
+  pureHmacProvider,
+  webCryptoHmacProvider,
+} from "./hmac.ts";
+import { OtpAlgorithm } from "./otp.ts";
+
+const toHex = (bytes: Uint8Array) =>
+  [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const encoder = new TextEncoder();
+
+Deno.test({
+  name: "hmac() matches the RFC 2202 and RFC 4231 test cases",
+  fn(): void {
+    const key = encoder.encode("Jefe");
+    const message = encoder.encode("what do ya want for nothing?");
+    // Keys longer than the block size are hashed first
+    const longKey = new Uint8Array(131).fill(0xaa);
+    const longKeyMessage = encoder.encode(
+      "Test Using Larger Than Block-Size Key - Hash Key First",
+    );
+    const expected = {
+      [OtpAlgorithm.SHA1]: [
+        "effcdf6ae5eb2fa2d27416d5f184df9c259a7c79",
+        "90d0dace1c1bdc957339307803160335bde6df2b",
+      ],
+      [OtpAlgorithm.SHA256]: [
+        "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+        "60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54",
+      ],
+      [OtpAlgorithm.SHA512]: [
+        "164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea250554" +
+        "9758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737",
+        "80b24263c7c1a3ebb71493c1dd7be8b49b46d1f41b4aeec1121b013783f8f352" +
+        "6b56d037e05f2598bd0fd2215d6a1e5295e64f73f63f0aec8b915a985d786598",
+      ],
+    };
+    for (const algorithm of Object.values(OtpAlgorithm)) {
+      assertEquals(
+        toHex(hmac(algorithm, key, message)),
+        expected[algorithm][0],
+      );
+      assertEquals(
+        toHex(hmac(algorithm, longKey, longKeyMessage)),
+        expected[algorithm][1],
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "digest() matches the SHA test vectors",
+  fn(): void {
+    const abc = encoder.encode("abc");
+    assertEquals(
+      toHex(digest(OtpAlgorithm.SHA1, abc)),
+      "a9993e364706816aba3e25717850c26c9cd0d89d",
+    );
+    assertEquals(
+      toHex(digest(OtpAlgorithm.SHA256, abc)),
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+    assertEquals(
+      toHex(digest(OtpAlgorithm.SHA512, abc)),
+      "ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a" +
+        "2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f",
+    );
+    assertThrows(
+      () => digest("MD5" as OtpAlgorithm, abc),
+      RangeError,
+      "not supported",
+    );
+  },
+});
+
+Deno.test({
+  name: "The pure provider signs like the WebCrypto provider",
+  async fn(): Promise<void> {
+    // Lengths around the block sizes cover the padding of one and two blocks
+    for (const length of [0, 1, 55, 56, 63, 64, 111, 112, 127, 128, 129, 300]) {
+      const key = crypto.getRandomValues(new Uint8Array(length + 1));
+      const message = crypto.getRandomValues(new Uint8Array(length));
+      for (const algorithm of Object.values(OtpAlgorithm)) {
+        assertEquals(
+          await pureHmacProvider.sign(algorithm, key, message),
+          await webCryptoHmacProvider.sign(algorithm, key, message),
+          `${algorithm} with ${length} bytes`,
+        );
+      }
+    }
+  },
+});
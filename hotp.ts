@@ -1,26 +1,62 @@
-import { GenerateOptions, Otp, OtpAlgorithm, ValidateOptions } from "./otp.ts";
-import type { OtpOptions } from "./otp.ts";
+import {
+  GenerateOptions,
+  Otp,
+  OtpAlgorithm,
+  ValidateOptions,
+  ValidationFailureReason,
+} from "./otp.ts";
+import type { OtpOptions, ValidationResult } from "./otp.ts";
+import type { KeyUriLabel } from "./key_uri.ts";
+import { parseSerializedOtp, toOtpOptions } from "./serialization.ts";
+import type { RestoreOptions, SerializedHotp } from "./serialization.ts";
+import type { OtpState } from "./state_store.ts";
 
 export interface HotpOptions {
   counter?: number;
 }
 
+export interface ResynchronizeOptions {
+  /** Amount of counter values to search after the current counter, defaults to 1000 and is limited to 100000. */
+  lookAhead?: number;
+}
+
+/** Upper bound of the look ahead window of resynchronize, which limits the time of a single call. */
+const maxLookAhead = 100000;
+
 export class Hotp extends Otp {
   #counter = 0;
   public get counter(): number {
     return this.#counter;
   }
 
+  #lastMatchedOffset?: number;
+  /** Offset in the look ahead window matched by the last call to validate or undefined if the code was not valid. */
+  public get lastMatchedOffset(): number | undefined {
+    return this.#lastMatchedOffset;
+  }
+
+  /**
+   * @param counter
+   * @throws RangeError if the counter is negative or not an integer.
+   */
   public resetCounter(counter = 0) {
+    if (!Number.isSafeInteger(counter) || counter < 0) {
+      throw new RangeError("The counter must be a non-negative integer.");
+    }
     this.#counter = counter;
   }
 
+  /**
+   * @param secret
+   * @param options
+   * @throws RangeError if the counter is negative or not an integer.
+   */
   constructor(secret: Uint8Array | string, options?: HotpOptions & OtpOptions) {
     const defaultOptions: OtpOptions = {
       algorithm: OtpAlgorithm.SHA1,
       digits: 6,
-      // TODO: Find a good validation window or introduce a resync mechanism
       // Plausible look ahead window https://www.protectimus.com/blog/hotp-algorithm/
+      // Profiles provide stricter windows and larger offsets can be recovered with resynchronize
       validationWindow: 100,
     };
     const normalizedOptions: OtpOptions = {
@@ -28,7 +64,7 @@ export class Hotp extends Otp {
       ...options,
     };
     super(secret, normalizedOptions);
-    if (options?.counter !== undefined) this.#counter = options.counter;
+    if (options?.counter !== undefined) this.resetCounter(options.counter);
   }
 
   /**
@@ -39,36 +75,210 @@ export class Hotp extends Otp {
    * @param options
    */
   async generate(options?: GenerateOptions): Promise<string> {
-    const generatedCode = await this.generateCodeNoSideEffects(
-      options?.movingFactor ?? this.#counter,
-      options?.formatCode ?? true,
-      {
-        grouping: options?.grouping,
-      },
+    return await this.withState(async () => {
+      const generatedCode = await this.generateCodeNoSideEffects(
+        options?.movingFactor ?? this.#counter,
+        options?.formatCode ?? true,
+        {
+          grouping: options?.grouping,
+        },
+      );
+      if (options?.sideEffects ?? true) this.#counter++;
+      return generatedCode;
+    });
+  }
+
+  /**
+   * Generates the formatted Otp code like generate, but synchronously with the TypeScript HMAC implementation.
+   * @param options
+   * @throws TypeError if a state store is used, because its methods are asynchronous.
+   * @throws Error if an asynchronous operation of this instance is still running.
+   */
+  generateSync(options?: GenerateOptions): string {
+    return this.withStateSync(() => {
+      const generatedCode = this.generateCodeNoSideEffectsSync(
+        options?.movingFactor ?? this.#counter,
+        options?.formatCode ?? true,
+        {
+          grouping: options?.grouping,
+        },
+      );
+      if (options?.sideEffects ?? true) this.#counter++;
+      return generatedCode;
+    });
+  }
+
+  /**
+   * Validates the formatted otp code against the future window as look ahead window, ignoring spaces.
+   * The past window is not used, because codes before the counter were already used.
+   * If options.sideEffects is set to true (default) the counter is set after the matched moving factor,
+   * so the matched code and all codes before it can not be used again.
+   * The delta of the result is the offset in the look ahead window.
+   * @param code
+   * @param options
+   */
+  async validateDetailed(
+    code: string,
+    options?: ValidateOptions,
+  ): Promise<ValidationResult> {
+    return await this.withThrottledState(() =>
+      this.matchCode(code, this.#validationSteps(code, options))
     );
-    if (options?.sideEffects ?? true) this.#counter++;
-    return generatedCode;
   }
 
   /**
-   * Validates the formatted otp code against a look ahead window, ignoring spaces and increments the internal counter if options.sideEffects is set to true (default).
+   * Validates the formatted otp code like validate, but synchronously with the TypeScript HMAC implementation.
    * @param code
    * @param options
+   * @throws TypeError if a state store is used, because its methods are asynchronous.
+   * @throws Error if an asynchronous operation of this instance is still running.
    */
-  async validate(code: string, options?: ValidateOptions): Promise<boolean> {
-    let codeIsValid = false;
+  validateSync(code: string, options?: ValidateOptions): boolean {
+    return this.validateDetailedSync(code, options).valid;
+  }
+
+  /**
+   * Validates the formatted otp code like validateDetailed, but synchronously with the TypeScript HMAC implementation.
+   * @param code
+   * @param options
+   * @throws TypeError if a state store is used, because its methods are asynchronous.
+   * @throws Error if an asynchronous operation of this instance is still running.
+   */
+  validateDetailedSync(
+    code: string,
+    options?: ValidateOptions,
+  ): ValidationResult {
+    return this.withThrottledStateSync(() =>
+      this.matchCodeSync(code, this.#validationSteps(code, options))
+    );
+  }
+
+  /** Yields the counter values of the look ahead window until the code matches. */
+  *#validationSteps(
+    code: string,
+    options?: ValidateOptions,
+  ): Generator<number, ValidationResult, boolean> {
+    // Reset within the serialized operation, so concurrent calls do not clear the offset of a running validation
+    this.#lastMatchedOffset = undefined;
+    if (!this.isWellFormedCode(code)) {
+      return { valid: false, reason: ValidationFailureReason.Malformed };
+    }
     const usedMovingFactor = options?.movingFactor ?? this.#counter;
     // Set upper bound to zero to make the for loop run one time only
     const upperBound = options?.validateAgainstWindow ?? true
-      ? this.validationWindow
+      ? this.futureWindow
       : 0;
     for (let index = 0; index <= upperBound; index++) {
-      // Only reassign if code is not already valid
-      codeIsValid = !codeIsValid
-        ? await this.validateCodeNoSideEffects(code, usedMovingFactor + index)
-        : codeIsValid;
+      if (yield usedMovingFactor + index) {
+        this.#lastMatchedOffset = index;
+        if (options?.sideEffects ?? true) {
+          // A lower moving factor must not roll the counter back and reopen used codes
+          this.#counter = Math.max(this.#counter, usedMovingFactor + index + 1);
+        }
+        return {
+          valid: true,
+          matchedMovingFactor: usedMovingFactor + index,
+          delta: index,
+        };
+      }
     }
-    if ((options?.sideEffects ?? true) && codeIsValid) this.#counter++;
-    return codeIsValid;
+    return { valid: false, reason: ValidationFailureReason.Mismatch };
+  }
+
+  /**
+   * Resynchronizes the counter with two consecutive codes as described in [RFC 4226 appendix E.4](https://www.rfc-editor.org/rfc/rfc4226#appendix-E.4).
+   * The look ahead window is searched for the first code directly followed by the second code.
+   * On success the counter is set after the second code, so both codes can not be used again.
+   * @param code1 First code generated by the token.
+   * @param code2 Code generated by the token directly after the first code.
+   * @param options
+   * @throws RangeError if the look ahead window is not an integer between 0 and 100000.
+   */
+  async resynchronize(
+    code1: string,
+    code2: string,
+    options?: ResynchronizeOptions,
+  ): Promise<boolean> {
+    return (await this.resynchronizeDetailed(code1, code2, options)).valid;
+  }
+
+  /**
+   * Resynchronizes the counter like this.resynchronize, but returns the counter of the first code, its offset and the reason of a failure.
+   * Failures are counted by the throttle policy like failed validations, so the look ahead window can not be searched without limit.
+   * @param code1 First code generated by the token.
+   * @param code2 Code generated by the token directly after the first code.
+   * @param options
+   * @throws RangeError if the look ahead window is not an integer between 0 and 100000.
+   */
+  async resynchronizeDetailed(
+    code1: string,
+    code2: string,
+    options?: ResynchronizeOptions,
+  ): Promise<ValidationResult> {
+    const lookAhead = options?.lookAhead ?? 1000;
+    if (
+      !Number.isInteger(lookAhead) || lookAhead < 0 || lookAhead > maxLookAhead
+    ) {
+      throw new RangeError(
+        `The look ahead window must be an integer between 0 and ${maxLookAhead}.`,
+      );
+    }
+    return await this.withThrottledState(async () => {
+      if (!this.isWellFormedCode(code1) || !this.isWellFormedCode(code2)) {
+        return { valid: false, reason: ValidationFailureReason.Malformed };
+      }
+      const counter = this.#counter;
+      for (let index = 0; index <= lookAhead; index++) {
+        if (
+          await this.validateCodeNoSideEffects(code1, counter + index) &&
+          await this.validateCodeNoSideEffects(code2, counter + index + 1)
+        ) {
+          this.#counter = counter + index + 2;
+          return {
+            valid: true,
+            matchedMovingFactor: counter + index,
+            delta: index,
+          };
+        }
+      }
+      return { valid: false, reason: ValidationFailureReason.Mismatch };
+    });
+  }
+
+  protected exportState(): OtpState {
+    return { counter: this.#counter };
+  }
+
+  protected importState(state: OtpState) {
+    if (state.counter !== undefined) this.#counter = state.counter;
+  }
+
+  toJSON(): SerializedHotp {
+    return { type: "hotp", ...this.serializeBase(), counter: this.#counter };
+  }
+
+  /**
+   * Restores an instance serialized by toJSON.
+   * @param json JSON string or already parsed object.
+   * @param options Runtime dependencies which are not serialized.
+   * @throws SyntaxError if the JSON string is malformed.
+   * @throws TypeError if the payload is not a valid serialized Hotp.
+   * @throws RangeError if the version is not supported or a value is out of range.
+   */
+  static fromJSON(json: unknown, options?: RestoreOptions): Hotp {
+    const payload = parseSerializedOtp(json, "hotp");
+    return new Hotp(payload.secret, {
+      ...toOtpOptions(payload),
+      ...options,
+      counter: payload.counter,
+    });
+  }
+
+  /**
+   * Creates a key URI like `otpauth://hotp/Issuer:account?secret=...&counter=...` containing the current counter.
+   * @param label
+   */
+  toUri(label: KeyUriLabel): string {
+    return this.createKeyUri("hotp", label, { counter: this.#counter });
   }
 }
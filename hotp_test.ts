@@ -1,5 +1,15 @@
-import { assert, assertEquals, assertFalse } from "./test_deps.ts";
+import {
+  assert,
+  assertEquals,
+  assertFalse,
+  assertRejects,
+  assertThrows,
+} from "./test_deps.ts";
+import { pureHmacProvider, webCryptoHmacProvider } from "./hmac.ts";
 import { Hotp } from "./hotp.ts";
+import { ValidationFailureReason } from "./otp.ts";
+import { MemoryStateStore } from "./state_store.ts";
+import { ThrottlePolicy } from "./throttle.ts";
 import { encode } from "./deps.ts";
 
 Deno.test({
@@ -46,26 +56,28 @@ Deno.test({
     const rfcSecretString = "12345678901234567890";
     const rfcSecretBase32 = encode(new TextEncoder().encode(rfcSecretString));
 
-    for (let index = 0; index < rfcCodes.length; index++) {
-      const code = rfcCodes[index];
-      assertEquals(
-        await (new Hotp((new TextEncoder()).encode(rfcSecretString))).generate(
-          {
+    for (const hmacProvider of [webCryptoHmacProvider, pureHmacProvider]) {
+      for (let index = 0; index < rfcCodes.length; index++) {
+        const code = rfcCodes[index];
+        assertEquals(
+          await (new Hotp((new TextEncoder()).encode(rfcSecretString), {
+            hmacProvider,
+          })).generate({
             movingFactor: index,
             sideEffects: false,
             grouping: 3,
-          },
-        ),
-        code,
-      );
-      assertEquals(
-        await (new Hotp(rfcSecretBase32)).generate({
-          movingFactor: index,
-          sideEffects: false,
-          grouping: 3,
-        }),
-        code,
-      );
+          }),
+          code,
+        );
+        assertEquals(
+          await (new Hotp(rfcSecretBase32, { hmacProvider })).generate({
+            movingFactor: index,
+            sideEffects: false,
+            grouping: 3,
+          }),
+          code,
+        );
+      }
     }
   },
 });
@@ -261,3 +273,300 @@ Deno.test({
     assert(await serverHotp.validate(await clientHotp.generate()));
   },
 });
+
+Deno.test({
+  name: "resynchronize() recovers the counter with two consecutive codes",
+  async fn(): Promise<void> {
+    const rfcSecretString = "12345678901234567890";
+    const hotp = new Hotp((new TextEncoder()).encode(rfcSecretString), {
+      validationWindow: 5,
+    });
+    // Token was pressed many times offline
+    const codeAt500 = await hotp.generate({
+      movingFactor: 500,
+      sideEffects: false,
+    });
+    const codeAt501 = await hotp.generate({
+      movingFactor: 501,
+      sideEffects: false,
+    });
+    assertFalse(await hotp.validate(codeAt500));
+
+    // Codes which are not consecutive do not resynchronize the counter
+    assertFalse(await hotp.resynchronize(codeAt501, codeAt500));
+    assertEquals(hotp.counter, 0);
+
+    // The look ahead window is too small
+    assertFalse(
+      await hotp.resynchronize(codeAt500, codeAt501, { lookAhead: 499 }),
+    );
+    assertEquals(hotp.counter, 0);
+
+    assert(await hotp.resynchronize(codeAt500, codeAt501, { lookAhead: 500 }));
+    assertEquals(hotp.counter, 502);
+
+    for (const lookAhead of [-1, 1.5, NaN, Infinity, 100001]) {
+      await assertRejects(
+        () => hotp.resynchronize(codeAt500, codeAt501, { lookAhead }),
+        RangeError,
+        "look ahead",
+      );
+    }
+
+    // Both codes are used up
+    assertFalse(await hotp.validate(codeAt501));
+    assertFalse(await hotp.resynchronize(codeAt500, codeAt501));
+    assert(
+      await hotp.validate(
+        await hotp.generate({ movingFactor: 502, sideEffects: false }),
+      ),
+    );
+  },
+});
+
+Deno.test({
+  name: "resynchronize() failures are counted by the throttle policy",
+  async fn(): Promise<void> {
+    const rfcSecret = (new TextEncoder()).encode("12345678901234567890");
+    const hotp = new Hotp(rfcSecret, {
+      throttlePolicy: new ThrottlePolicy({ maxFailures: 2, freeFailures: 2 }),
+    });
+    const codeAt500 = await hotp.generate({
+      movingFactor: 500,
+      sideEffects: false,
+    });
+    const codeAt501 = await hotp.generate({
+      movingFactor: 501,
+      sideEffects: false,
+    });
+    assertEquals(await hotp.resynchronizeDetailed("123456", "654321"), {
+      valid: false,
+      reason: ValidationFailureReason.Mismatch,
+    });
+    assertEquals(
+      (await hotp.resynchronizeDetailed("12345", "654321")).reason,
+      ValidationFailureReason.Malformed,
+    );
+    assertFalse(await hotp.resynchronize(codeAt501, codeAt500));
+    assertEquals(hotp.failedAttempts, 2);
+
+    // Locked accounts can not be resynchronized, even with the right codes
+    assertEquals(
+      await hotp.resynchronizeDetailed(codeAt500, codeAt501),
+      { valid: false, reason: ValidationFailureReason.Locked },
+    );
+    assertEquals(hotp.counter, 0);
+    await hotp.unlock();
+    assertEquals(await hotp.resynchronizeDetailed(codeAt500, codeAt501), {
+      valid: true,
+      matchedMovingFactor: 500,
+      delta: 500,
+    });
+    assertEquals(hotp.counter, 502);
+  },
+});
+
+Deno.test({
+  name: "validate() advances the counter to the matched position",
+  async fn(): Promise<void> {
+    const rfcSecretString = "12345678901234567890";
+    const hotp = new Hotp((new TextEncoder()).encode(rfcSecretString));
+    const codes: string[] = [];
+    for (let index = 0; index <= 41; index++) {
+      codes.push(
+        await hotp.generate({ movingFactor: index, sideEffects: false }),
+      );
+    }
+
+    assert(await hotp.validate(codes[40]));
+    assertEquals(hotp.lastMatchedOffset, 40);
+    assertEquals(hotp.counter, 41);
+
+    // The matched code and all skipped codes in the window are rejected afterwards
+    for (let index = 0; index <= 40; index++) {
+      assertFalse(await hotp.validate(codes[index]));
+      assertEquals(hotp.lastMatchedOffset, undefined);
+    }
+    assertEquals(hotp.counter, 41);
+
+    assert(await hotp.validate(codes[41]));
+    assertEquals(hotp.lastMatchedOffset, 0);
+    assertEquals(hotp.counter, 42);
+
+    // A queued validation does not clear the offset before it runs
+    const queued = hotp.validate(codes[0]);
+    assertEquals(hotp.lastMatchedOffset, 0);
+    assertFalse(await queued);
+    assertEquals(hotp.lastMatchedOffset, undefined);
+  },
+});
+
+Deno.test({
+  name: "validate() does not roll the counter back with a lower moving factor",
+  async fn(): Promise<void> {
+    const rfcSecretString = "12345678901234567890";
+    const hotp = new Hotp((new TextEncoder()).encode(rfcSecretString), {
+      counter: 50,
+    });
+    const code = (movingFactor: number) =>
+      hotp.generate({ movingFactor, sideEffects: false });
+    assert(
+      await hotp.validate(await code(3), {
+        movingFactor: 0,
+        sideEffects: true,
+        validateAgainstWindow: true,
+      }),
+    );
+    assertEquals(hotp.counter, 50);
+    assertFalse(await hotp.validate(await code(4)));
+    assert(await hotp.validate(await code(52)));
+    assertEquals(hotp.counter, 53);
+  },
+});
+
+Deno.test({
+  name: "validate() reports the offset without side effects",
+  async fn(): Promise<void> {
+    const rfcSecretString = "12345678901234567890";
+    const hotp = new Hotp((new TextEncoder()).encode(rfcSecretString), {
+      counter: 3,
+    });
+    assert(
+      await hotp.validate(
+        await hotp.generate({ movingFactor: 10, sideEffects: false }),
+        { sideEffects: false, validateAgainstWindow: true },
+      ),
+    );
+    assertEquals(hotp.lastMatchedOffset, 7);
+    assertEquals(hotp.counter, 3);
+  },
+});
+
+Deno.test({
+  name: "validateDetailed() reports the matched counter and the reason",
+  async fn(): Promise<void> {
+    const rfcSecretString = "12345678901234567890";
+    const hotp = new Hotp((new TextEncoder()).encode(rfcSecretString), {
+      counter: 2,
+      validationWindow: 5,
+    });
+
+    // RFC code for the counter 5
+    assertEquals(await hotp.validateDetailed("254 676"), {
+      valid: true,
+      matchedMovingFactor: 5,
+      delta: 3,
+    });
+    assertEquals(await hotp.validateDetailed("254 676"), {
+      valid: false,
+      reason: ValidationFailureReason.Mismatch,
+    });
+    for (const malformedCode of ["254 67", "254 6767", "25A 676", ""]) {
+      assertEquals(await hotp.validateDetailed(malformedCode), {
+        valid: false,
+        reason: ValidationFailureReason.Malformed,
+      });
+    }
+    assertEquals(hotp.counter, 6);
+  },
+});
+
+Deno.test({
+  name: "Concurrent validate() calls accept a code only once",
+  async fn(): Promise<void> {
+    const rfcSecret = (new TextEncoder()).encode("12345678901234567890");
+    const hotp = new Hotp(rfcSecret);
+    // RFC code for the counter 3
+    const results = await Promise.all(
+      Array.from({ length: 50 }, () => hotp.validate("969 429")),
+    );
+    assertEquals(results.filter((valid) => valid).length, 1);
+    assertEquals(hotp.counter, 4);
+
+    // Instances sharing an account in a state store are serialized as well
+    const stateStore = new MemoryStateStore();
+    const instances = Array.from(
+      { length: 10 },
+      () => new Hotp(rfcSecret, { stateStore, accountId: "alice" }),
+    );
+    const sharedResults = await Promise.all(
+      instances.flatMap((instance) => [
+        instance.validate("969 429"),
+        instance.validate("969 429"),
+      ]),
+    );
+    assertEquals(sharedResults.filter((valid) => valid).length, 1);
+    assertEquals(await stateStore.get("alice"), { counter: 4 });
+  },
+});
+
+Deno.test({
+  name:
+    "generateSync() and validateSync() have the side effects of the async methods",
+  async fn(): Promise<void> {
+    const rfcSecret = (new TextEncoder()).encode("12345678901234567890");
+    const hotp = new Hotp(rfcSecret);
+    assertEquals(hotp.generateSync(), "755 224");
+    assertEquals(
+      hotp.generateSync({ formatCode: false, sideEffects: true }),
+      "287082",
+    );
+    assertEquals(
+      hotp.generateSync({ movingFactor: 9, sideEffects: false }),
+      "520 489",
+    );
+    assertEquals(hotp.counter, 2);
+
+    // RFC code for the counter 3, the counter is set after the matched code
+    assertEquals(hotp.validateDetailedSync("969 429"), {
+      valid: true,
+      matchedMovingFactor: 3,
+      delta: 1,
+    });
+    assertEquals(hotp.lastMatchedOffset, 1);
+    assertEquals(hotp.counter, 4);
+    assertFalse(hotp.validateSync("969 429"));
+    assert(
+      hotp.validateSync("338 314", {
+        sideEffects: false,
+        validateAgainstWindow: true,
+      }),
+    );
+    assertEquals(hotp.counter, 4);
+    assertEquals(
+      await hotp.generate(),
+      hotp.generateSync({
+        movingFactor: 4,
+        sideEffects: false,
+      }),
+    );
+
+    const throttled = new Hotp(rfcSecret, {
+      throttlePolicy: new ThrottlePolicy({ maxFailures: 1 }),
+    });
+    assertFalse(throttled.validateSync("000 000"));
+    assertEquals(
+      throttled.validateDetailedSync("755 224").reason,
+      ValidationFailureReason.Locked,
+    );
+  },
+});
+
+Deno.test({
+  name: "Synchronous methods reject state stores and running async operations",
+  async fn(): Promise<void> {
+    const rfcSecret = (new TextEncoder()).encode("12345678901234567890");
+    const stored = new Hotp(rfcSecret, {
+      stateStore: new MemoryStateStore(),
+      accountId: "alice",
+    });
+    assertThrows(() => stored.generateSync(), TypeError, "state store");
+    assertThrows(() => stored.validateSync("755 224"), TypeError);
+
+    const hotp = new Hotp(rfcSecret);
+    const pending = hotp.validate("755 224");
+    assertThrows(() => hotp.validateSync("755 224"), Error, "asynchronous");
+    assert(await pending);
+    assertFalse(hotp.validateSync("755 224"));
+  },
+});
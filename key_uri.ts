@@ -0,0 +1,264 @@
+import { decode } from "./deps.ts";
+import { OtpAlgorithm } from "./otp.ts";
+import {
+  cleanUserInputFormatAndAddBase32Padding,
+  isBase32,
+  parseOtpAlgorithm,
+} from "./util.ts";
+
+export type KeyUriType = "hotp" | "totp";
+
+export interface KeyUriLabel {
+  accountName: string;
+  issuer?: string;
+}
+
+/** Representation of a [Key URI](https://github.com/google/google-authenticator/wiki/Key-Uri-Format). */
+export interface KeyUri extends KeyUriLabel {
+  type: KeyUriType;
+  /** Base32 encoded secret without padding. */
+  secret: string;
+  algorithm?: OtpAlgorithm;
+  digits?: number;
+  /** Only allowed for the type totp. */
+  period?: number;
+  /** Required for the type hotp. */
+  counter?: number;
+}
+
+const knownParameters = [
+  "secret",
+  "issuer",
+  "algorithm",
+  "digits",
+  "period",
+  "counter",
+];
+
+/**
+ * Formats the given key URI to a string like `otpauth://totp/Issuer:account?secret=...&issuer=...`.
+ * @param keyUri
+ * @throws TypeError if the label contains a colon, the secret is not Base32 or a parameter does not fit the type.
+ * @throws RangeError if digits, period or counter are not in their allowed range.
+ */
+export function formatKeyUri(keyUri: KeyUri): string {
+  validateLabelPart(keyUri.accountName, "account name");
+  if (keyUri.issuer !== undefined) validateLabelPart(keyUri.issuer, "issuer");
+
+  const secret = normalizeSecret(keyUri.secret);
+
+  const label = keyUri.issuer !== undefined
+    ? `${encodeURIComponent(keyUri.issuer)}:${
+      encodeURIComponent(keyUri.accountName)
+    }`
+    : encodeURIComponent(keyUri.accountName);
+
+  const parameters = [`secret=${secret}`];
+  if (keyUri.issuer !== undefined) {
+    parameters.push(`issuer=${encodeURIComponent(keyUri.issuer)}`);
+  }
+  if (keyUri.algorithm !== undefined) {
+    parameters.push(`algorithm=${toKeyUriAlgorithm(keyUri.algorithm)}`);
+  }
+  if (keyUri.digits !== undefined) {
+    validateInteger(keyUri.digits, "digits", 1);
+    parameters.push(`digits=${keyUri.digits}`);
+  }
+  validateTypeSpecificParameters(keyUri);
+  if (keyUri.period !== undefined) parameters.push(`period=${keyUri.period}`);
+  if (keyUri.counter !== undefined) {
+    parameters.push(`counter=${keyUri.counter}`);
+  }
+
+  return `otpauth://${keyUri.type}/${label}?${parameters.join("&")}`;
+}
+
+/**
+ * Parses and strictly validates a key URI like `otpauth://hotp/Issuer:account?secret=...&counter=...`.
+ * Unknown parameters like `image` are ignored.
+ * @param uri
+ * @throws TypeError if the URI is malformed, the secret is missing or a parameter is unsupported.
+ * @throws RangeError if digits, period or counter are not in their allowed range.
+ */
+export function parseKeyUri(uri: string): KeyUri {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch (_) {
+    throw new TypeError(`The key URI "${uri}" is not a valid URI.`);
+  }
+  if (url.protocol !== "otpauth:") {
+    throw new TypeError(
+      `The key URI has to use the scheme "otpauth" but uses "${
+        url.protocol.slice(0, -1)
+      }".`,
+    );
+  }
+  const type = url.hostname.toLowerCase();
+  if (type !== "hotp" && type !== "totp") {
+    throw new TypeError(
+      `The key URI type "${url.hostname}" is not supported, use "hotp" or "totp".`,
+    );
+  }
+
+  for (const name of knownParameters) {
+    if (url.searchParams.getAll(name).length > 1) {
+      throw new TypeError(
+        `The key URI parameter "${name}" must not occur more than once.`,
+      );
+    }
+  }
+
+  const keyUri: KeyUri = {
+    type,
+    ...parseLabel(url.pathname),
+    secret: "",
+  };
+
+  const secret = url.searchParams.get("secret");
+  if (secret === null || secret === "") {
+    throw new TypeError('The key URI is missing the "secret" parameter.');
+  }
+  keyUri.secret = normalizeSecret(secret);
+
+  const issuer = url.searchParams.get("issuer");
+  if (issuer !== null) {
+    if (keyUri.issuer !== undefined && keyUri.issuer !== issuer) {
+      throw new TypeError(
+        `The issuer of the label "${keyUri.issuer}" does not match the issuer parameter "${issuer}".`,
+      );
+    }
+    validateLabelPart(issuer, "issuer");
+    keyUri.issuer = issuer;
+  }
+
+  const algorithm = url.searchParams.get("algorithm");
+  if (algorithm !== null) {
+    const otpAlgorithm = parseOtpAlgorithm(algorithm);
+    if (otpAlgorithm === undefined) {
+      throw new TypeError(
+        `The key URI algorithm "${algorithm}" is not supported, use ${
+          Object.values(OtpAlgorithm).map(toKeyUriAlgorithm).join(", ")
+        }.`,
+      );
+    }
+    keyUri.algorithm = otpAlgorithm;
+  }
+
+  const digits = url.searchParams.get("digits");
+  if (digits !== null) keyUri.digits = parseInteger(digits, "digits", 1);
+
+  const period = url.searchParams.get("period");
+  if (period !== null) keyUri.period = parseInteger(period, "period", 1);
+
+  const counter = url.searchParams.get("counter");
+  if (counter !== null) keyUri.counter = parseInteger(counter, "counter", 0);
+
+  validateTypeSpecificParameters(keyUri);
+  return keyUri;
+}
+
+/** Key URIs use the algorithm names without a dash, e.g. SHA1 instead of SHA-1. */
+function toKeyUriAlgorithm(algorithm: OtpAlgorithm): string {
+  return algorithm.replace("-", "");
+}
+
+function parseLabel(pathname: string): KeyUriLabel {
+  let label: string;
+  try {
+    label = decodeURIComponent(pathname.replace(/^\//, ""));
+  } catch (_) {
+    throw new TypeError(
+      `The key URI label "${pathname}" is not correctly percent-encoded.`,
+    );
+  }
+  const parts = label.split(":");
+  if (parts.length > 2) {
+    throw new TypeError(
+      `The key URI label "${label}" must not contain more than one colon.`,
+    );
+  }
+  // Google Authenticator allows optional spaces after the colon
+  const accountName = parts[parts.length - 1].trim();
+  if (accountName === "") {
+    throw new TypeError("The key URI label is missing the account name.");
+  }
+  if (parts.length === 1) return { accountName };
+
+  const issuer = parts[0].trim();
+  if (issuer === "") {
+    throw new TypeError("The issuer prefix of the key URI label is empty.");
+  }
+  return { accountName, issuer };
+}
+
+function validateLabelPart(value: string, name: string) {
+  if (value.trim() === "") {
+    throw new TypeError(`The ${name} of a key URI must not be empty.`);
+  }
+  if (value.includes(":")) {
+    throw new TypeError(
+      `The ${name} "${value}" of a key URI must not contain a colon.`,
+    );
+  }
+}
+
+function validateTypeSpecificParameters(keyUri: KeyUri) {
+  if (keyUri.type === "hotp") {
+    if (keyUri.counter === undefined) {
+      throw new TypeError(
+        'The key URI of the type hotp requires the "counter" parameter.',
+      );
+    }
+    if (keyUri.period !== undefined) {
+      throw new TypeError(
+        'The "period" parameter is not supported by the key URI type hotp.',
+      );
+    }
+    validateInteger(keyUri.counter, "counter", 0);
+  } else {
+    if (keyUri.counter !== undefined) {
+      throw new TypeError(
+        'The "counter" parameter is not supported by the key URI type totp.',
+      );
+    }
+    if (keyUri.period !== undefined) {
+      validateInteger(keyUri.period, "period", 1);
+    }
+  }
+}
+
+function normalizeSecret(secret: string): string {
+  const paddedSecret = cleanUserInputFormatAndAddBase32Padding(secret);
+  let valid = isBase32(paddedSecret);
+  if (valid) {
+    try {
+      valid = decode(paddedSecret).length !== 0;
+    } catch (_) {
+      valid = false;
+    }
+  }
+  if (!valid) {
+    throw new TypeError("The key URI secret is not a valid Base32 string.");
+  }
+  return paddedSecret.replaceAll("=", "");
+}
+
+function parseInteger(value: string, name: string, minimum: number): number {
+  if (!/^\d+$/.test(value)) {
+    throw new TypeError(
+      `The key URI parameter "${name}" has to be an integer but is "${value}".`,
+    );
+  }
+  const parsed = parseInt(value);
+  validateInteger(parsed, name, minimum);
+  return parsed;
+}
+
+function validateInteger(value: number, name: string, minimum: number) {
+  if (!Number.isSafeInteger(value) || value < minimum) {
+    throw new RangeError(
+      `The key URI parameter "${name}" has to be an integer of at least ${minimum} but is ${value}.`,
+    );
+  }
+}
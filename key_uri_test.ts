@@ -0,0 +1,180 @@
+import { assertEquals, assertThrows } from "./test_deps.ts";
+import { fromUri } from "./factory.ts";
+import { Hotp } from "./hotp.ts";
+import { formatKeyUri, parseKeyUri } from "./key_uri.ts";
+import { OtpAlgorithm } from "./otp.ts";
+import { Totp } from "./totp.ts";
+
+const base32Secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+Deno.test({
+  name: "toUri() creates a key URI for Hotp and Totp",
+  fn(): void {
+    assertEquals(
+      new Hotp(base32Secret, { counter: 5 }).toUri({
+        issuer: "ACME Co",
+        accountName: "john@example.com",
+      }),
+      `otpauth://hotp/ACME%20Co:john%40example.com?secret=${base32Secret}&issuer=ACME%20Co&algorithm=SHA1&digits=6&counter=5`,
+    );
+    assertEquals(
+      new Totp(base32Secret, {
+        algorithm: OtpAlgorithm.SHA512,
+        digits: 8,
+        stepSize: 60,
+      }).toUri({ accountName: "john" }),
+      `otpauth://totp/john?secret=${base32Secret}&algorithm=SHA512&digits=8&period=60`,
+    );
+  },
+});
+
+Deno.test({
+  name: "parseKeyUri() parses the label and all parameters",
+  fn(): void {
+    assertEquals(
+      parseKeyUri(
+        "otpauth://totp/ACME%20Co:%20john.doe%40email.com?secret=hxdm%20vjec%20j3qq&issuer=ACME%20Co&algorithm=sha256&digits=8&period=60&image=https%3A%2F%2Fexample.com",
+      ),
+      {
+        type: "totp",
+        issuer: "ACME Co",
+        accountName: "john.doe@email.com",
+        secret: "HXDMVJECJ3QQ",
+        algorithm: OtpAlgorithm.SHA256,
+        digits: 8,
+        period: 60,
+      },
+    );
+    assertEquals(
+      parseKeyUri("otpauth://hotp/alice?secret=JBSWY3DPEHPK3PXP&counter=0"),
+      {
+        type: "hotp",
+        accountName: "alice",
+        secret: "JBSWY3DPEHPK3PXP",
+        counter: 0,
+      },
+    );
+  },
+});
+
+Deno.test({
+  name: "fromUri() round-trips the algorithm, digits, step size and counter",
+  fn(): void {
+    const hotp = new Hotp(base32Secret, {
+      algorithm: OtpAlgorithm.SHA256,
+      digits: 8,
+      counter: 42,
+    });
+    const parsedHotp = fromUri(hotp.toUri({ accountName: "alice" }));
+    assertEquals(parsedHotp instanceof Hotp, true);
+    assertEquals((parsedHotp as Hotp).counter, 42);
+    assertEquals(parsedHotp.algorithm, OtpAlgorithm.SHA256);
+    assertEquals(parsedHotp.digits, 8);
+    assertEquals(
+      parsedHotp.toUri({ accountName: "alice" }),
+      hotp.toUri({ accountName: "alice" }),
+    );
+
+    const totp = new Totp(base32Secret, {
+      algorithm: OtpAlgorithm.SHA512,
+      digits: 7,
+      stepSize: 45,
+    });
+    const label = { issuer: "Example", accountName: "bob" };
+    const parsedTotp = fromUri(totp.toUri(label));
+    assertEquals(parsedTotp instanceof Totp, true);
+    assertEquals((parsedTotp as Totp).stepSize, 45);
+    assertEquals(parsedTotp.algorithm, OtpAlgorithm.SHA512);
+    assertEquals(parsedTotp.digits, 7);
+    assertEquals(parsedTotp.toUri(label), totp.toUri(label));
+  },
+});
+
+Deno.test({
+  name: "parseKeyUri() rejects malformed and unsupported key URIs",
+  fn(): void {
+    const valid = `otpauth://totp/Example:alice?secret=${base32Secret}`;
+    parseKeyUri(valid);
+
+    assertThrows(() => parseKeyUri("not a uri"), TypeError);
+    assertThrows(
+      () => parseKeyUri(valid.replace("otpauth", "https")),
+      TypeError,
+      "scheme",
+    );
+    assertThrows(
+      () => parseKeyUri(valid.replace("totp", "motp")),
+      TypeError,
+      "not supported",
+    );
+    assertThrows(
+      () => parseKeyUri("otpauth://totp/Example:alice?issuer=Example"),
+      TypeError,
+      "secret",
+    );
+    assertThrows(
+      () => parseKeyUri("otpauth://totp/Example:alice?secret=0189"),
+      TypeError,
+      "Base32",
+    );
+    assertThrows(
+      () => parseKeyUri(`${valid}&algorithm=MD5`),
+      TypeError,
+      "MD5",
+    );
+    assertThrows(
+      () => parseKeyUri(valid.replace("Example:alice", "Example%E0%A4%A")),
+      TypeError,
+      "percent-encoded",
+    );
+    assertThrows(
+      () => parseKeyUri(valid.replace("alice", "alice:bob")),
+      TypeError,
+      "colon",
+    );
+    assertThrows(
+      () => parseKeyUri(valid.replace("Example:alice", "Example:")),
+      TypeError,
+      "account name",
+    );
+    assertThrows(
+      () => parseKeyUri(`${valid}&issuer=Other`),
+      TypeError,
+      "does not match",
+    );
+    assertThrows(
+      () => parseKeyUri(`${valid}&digits=6&digits=8`),
+      TypeError,
+      "more than once",
+    );
+    assertThrows(() => parseKeyUri(`${valid}&digits=six`), TypeError);
+    assertThrows(() => parseKeyUri(`${valid}&period=0`), RangeError);
+    assertThrows(
+      () => parseKeyUri(`${valid}&counter=1`),
+      TypeError,
+      "counter",
+    );
+    assertThrows(
+      () => parseKeyUri(valid.replace("totp", "hotp")),
+      TypeError,
+      "counter",
+    );
+  },
+});
+
+Deno.test({
+  name: "formatKeyUri() rejects labels containing a colon",
+  fn(): void {
+    assertThrows(
+      () =>
+        formatKeyUri({
+          type: "totp",
+          issuer: "ACME:Co",
+          accountName: "alice",
+          secret: base32Secret,
+        }),
+      TypeError,
+      "colon",
+    );
+  },
+});
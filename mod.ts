@@ -1,5 +1,109 @@
-export { Otp, OtpAlgorithm } from "./otp.ts";
-export type { GenerateSecretOptions, OtpOptions } from "./otp.ts";
+export {
+  Otp,
+  OtpAlgorithm,
+  systemClock,
+  ValidationFailureReason,
+} from "./otp.ts";
+export type {
+  Clock,
+  GenerateSecretOptions,
+  OtpOptions,
+  ValidationResult,
+} from "./otp.ts";
+
+export {
+  digest,
+  hmac,
+  pureHmacProvider,
+  webCryptoHmacProvider,
+} from "./hmac.ts";
+export type { HmacProvider } from "./hmac.ts";
 
 export { Hotp } from "./hotp.ts";
-export type { HotpOptions } from "./hotp.ts";
+export type { HotpOptions, ResynchronizeOptions } from "./hotp.ts";
+
+export { Totp } from "./totp.ts";
+export type { TotpOptions } from "./totp.ts";
+
+export { Ocra, OcraChallengeFormat, parseOcraSuite } from "./ocra.ts";
+export type {
+  OcraGenerateOptions,
+  OcraInput,
+  OcraOptions,
+  OcraSuite,
+  OcraValidateOptions,
+} from "./ocra.ts";
+
+export { formatKeyUri, parseKeyUri } from "./key_uri.ts";
+export type { KeyUri, KeyUriLabel, KeyUriType } from "./key_uri.ts";
+
+export { accountFromUri, fromJSON, fromUri } from "./factory.ts";
+export type { OtpAccount } from "./factory.ts";
+
+export { QrCode, QrErrorCorrectionLevel } from "./qr_code.ts";
+export type {
+  QrCodeImageOptions,
+  QrCodeOptions,
+  QrCodeTerminalOptions,
+} from "./qr_code.ts";
+
+export { JsonFileStateStore, MemoryStateStore } from "./state_store.ts";
+export type { OtpState, OtpStateStore } from "./state_store.ts";
+
+export { ThrottlePolicy } from "./throttle.ts";
+export type { ThrottlePolicyOptions } from "./throttle.ts";
+
+export { OtpProfiles } from "./profiles.ts";
+export type { OtpProfile } from "./profiles.ts";
+
+export { CodeEncodings } from "./code_encoding.ts";
+export type { CodeEncoding } from "./code_encoding.ts";
+
+export { RecoveryCodes } from "./recovery_codes.ts";
+export type {
+  RecoveryCodeHash,
+  RecoveryCodesOptions,
+  RecoveryCodesValidationOptions,
+} from "./recovery_codes.ts";
+
+export { parseSerializedOtp } from "./serialization.ts";
+export type {
+  RestoreOptions,
+  SerializedHotp,
+  SerializedOcra,
+  SerializedOtp,
+  SerializedOtpBase,
+  SerializedTotp,
+} from "./serialization.ts";
+
+export { MasterKeyring } from "./encrypted_secret.ts";
+export type { EncryptedSecret } from "./encrypted_secret.ts";
+
+export {
+  createMigrationUris,
+  parseMigrationUri,
+  parseMigrationUris,
+} from "./google_migration.ts";
+export type {
+  MigrationBatch,
+  MigrationExportOptions,
+} from "./google_migration.ts";
+
+export { BackupFormat, exportBackup, importBackup } from "./backup_formats.ts";
+export type {
+  BackupExport,
+  BackupImport,
+  BackupOptions,
+  SkippedEntry,
+} from "./backup_formats.ts";
+
+export { createPskc, parsePskc } from "./pskc.ts";
+export type { PskcKey, PskcOptions } from "./pskc.ts";
+
+export { Vault } from "./vault.ts";
+export type {
+  EncryptedVault,
+  VaultAccount,
+  VaultAddOptions,
+  VaultOptions,
+} from "./vault.ts";
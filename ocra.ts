@@ -0,0 +1,523 @@
+import { digest } from "./hmac.ts";
+import {
+  GenerateOptions,
+  Otp,
+  OtpAlgorithm,
+  ValidateOptions,
+  ValidationFailureReason,
+} from "./otp.ts";
+import type { OtpOptions, ValidationResult } from "./otp.ts";
+import { parseSerializedOtp } from "./serialization.ts";
+import type { RestoreOptions, SerializedOcra } from "./serialization.ts";
+import type { OtpState } from "./state_store.ts";
+import { numberToBytes } from "./util.ts";
+
+export enum OcraChallengeFormat {
+  Alphanumeric = "A",
+  Numeric = "N",
+  Hexadecimal = "H",
+}
+
+/** Parsed representation of an OCRA suite like `OCRA-1:HOTP-SHA256-8:QN08-PSHA1`. */
+export interface OcraSuite {
+  algorithm: OtpAlgorithm;
+  digits: number;
+  /** True if the data input contains the counter C. */
+  counter: boolean;
+  challengeFormat: OcraChallengeFormat;
+  /** Maximum length of a single challenge. Mutual challenge-response concatenates two challenges, see OcraInput.mutual. */
+  challengeLength: number;
+  pinAlgorithm?: OtpAlgorithm;
+  /** Length of the session information in bytes. */
+  sessionInformationLength?: number;
+  /** Time step size in seconds. */
+  timeStepSize?: number;
+}
+
+/** Inputs of the OCRA data input which are not managed by the Ocra instance. */
+export interface OcraInput {
+  /** Challenge Q in the format of the suite, required by every suite. */
+  challenge?: string;
+  /** True for mutual challenge-response, where the challenge concatenates the challenges of both parties and may be twice as long. */
+  mutual?: boolean;
+  /** PIN which gets hashed with the hash function of the suite. */
+  pin?: string;
+  /** Already hashed PIN, takes precedence over pin. */
+  pinHash?: Uint8Array;
+  /** Session information which is either UTF-8 encoded or used as raw bytes. */
+  sessionInformation?: string | Uint8Array;
+  /** Time in seconds since the Unix epoch, defaults to the current time of the clock. */
+  time?: number;
+}
+
+export type OcraGenerateOptions = Partial<GenerateOptions> & OcraInput;
+
+export type OcraValidateOptions = Partial<ValidateOptions> & OcraInput;
+
+export interface OcraOptions extends
+  Pick<
+    OtpOptions,
+    | "pastWindow"
+    | "futureWindow"
+    | "stateStore"
+    | "accountId"
+    | "throttlePolicy"
+    | "clock"
+    | "hmacProvider"
+  > {
+  /** OCRA suite like `OCRA-1:HOTP-SHA1-6:QN08`, which determines the algorithm and the digits. */
+  suite: string;
+  counter?: number;
+  /**
+   * Look ahead window of the counter or the window of time steps in both directions.
+   * The future window overrides the look ahead window and the past and future windows override the window of time steps.
+   */
+  validationWindow?: number;
+}
+
+/** Length of the challenge in the data input, shorter challenges are padded with zeros. */
+const challengeByteLength = 128;
+
+/**
+ * OCRA challenge-response algorithm as described in [RFC 6287](https://www.rfc-editor.org/rfc/rfc6287).
+ * The challenge, PIN, session information and time are passed to generate and validate.
+ */
+export class Ocra extends Otp {
+  #suite: string;
+  public get suite(): string {
+    return this.#suite;
+  }
+
+  #parsedSuite: OcraSuite;
+
+  /** RFC 6287 allows a truncation to 4 digits. */
+  protected static override minimumDigits = 4;
+
+  #counter = 0;
+  public get counter(): number {
+    return this.#counter;
+  }
+
+  /**
+   * @param counter
+   * @throws RangeError if the counter is negative or not an integer.
+   */
+  public resetCounter(counter = 0) {
+    if (!Number.isSafeInteger(counter) || counter < 0) {
+      throw new RangeError("The counter must be a non-negative integer.");
+    }
+    this.#counter = counter;
+  }
+
+  /**
+   * @param secret Secret in unencoded Uint8Array or Base32 encoded string representation.
+   * @param options Options containing the OCRA suite.
+   * @throws TypeError if the OCRA suite is not valid.
+   * @throws RangeError if the counter is negative or not an integer.
+   */
+  constructor(secret: Uint8Array | string, options: OcraOptions) {
+    const parsedSuite = parseOcraSuite(options.suite);
+    super(secret, {
+      algorithm: parsedSuite.algorithm,
+      digits: parsedSuite.digits,
+      validationWindow: options.validationWindow ?? 0,
+      pastWindow: options.pastWindow,
+      futureWindow: options.futureWindow,
+      stateStore: options.stateStore,
+      accountId: options.accountId,
+      throttlePolicy: options.throttlePolicy,
+      clock: options.clock,
+      hmacProvider: options.hmacProvider,
+    });
+    this.#suite = options.suite;
+    this.#parsedSuite = parsedSuite;
+    if (options.counter !== undefined) this.resetCounter(options.counter);
+  }
+
+  /**
+   * Generates the formatted OCRA response and increments the internal counter if the suite uses a counter and options.sideEffects is set to true (default).
+   * options.movingFactor overrides the counter.
+   * @param options
+   * @throws TypeError if an input required by the suite is missing or malformed.
+   * @throws RangeError if the challenge or the session information is longer than allowed by the suite.
+   */
+  async generate(options?: OcraGenerateOptions): Promise<string> {
+    return await this.withState(async () => {
+      const counter = options?.movingFactor ?? this.#counter;
+      const generatedCode = await this.generateCodeNoSideEffects(
+        this.#createDataInput(counter, 0, options),
+        options?.formatCode ?? true,
+        {
+          grouping: options?.grouping,
+        },
+      );
+      if ((options?.sideEffects ?? true) && this.#parsedSuite.counter) {
+        this.#counter++;
+      }
+      return generatedCode;
+    });
+  }
+
+  /**
+   * Validates the formatted OCRA response, ignoring spaces.
+   * Suites with a counter are validated against a look ahead window and set the counter after the matched one if options.sideEffects is set to true (default).
+   * Suites with a time step are validated against the past and the future window.
+   * @param code
+   * @param options
+   * @throws TypeError if an input required by the suite is missing or malformed.
+   * @throws RangeError if the challenge or the session information is longer than allowed by the suite.
+   */
+  override async validate(
+    code: string,
+    options?: OcraValidateOptions,
+  ): Promise<boolean> {
+    return (await this.validateDetailed(code, options)).valid;
+  }
+
+  /**
+   * Validates the formatted OCRA response like this.validate, but returns the matched moving factor, its delta to the expected one and the reason of a failure.
+   * The moving factor is the counter or the time step, suites without both only report the validity.
+   * @param code
+   * @param options
+   * @throws TypeError if an input required by the suite is missing or malformed.
+   * @throws RangeError if the challenge or the session information is longer than allowed by the suite.
+   */
+  async validateDetailed(
+    code: string,
+    options?: OcraValidateOptions,
+  ): Promise<ValidationResult> {
+    return await this.withThrottledState(async () => {
+      if (!this.isWellFormedCode(code)) {
+        return { valid: false, reason: ValidationFailureReason.Malformed };
+      }
+      const suite = this.#parsedSuite;
+      const counter = options?.movingFactor ?? this.#counter;
+      const validateAgainstWindow = options?.validateAgainstWindow ?? true;
+      const lowerBound = validateAgainstWindow && !suite.counter &&
+          suite.timeStepSize !== undefined && this.pastWindow > 0
+        ? -this.pastWindow
+        : 0;
+      const upperBound = validateAgainstWindow &&
+          (suite.counter || suite.timeStepSize !== undefined)
+        ? this.futureWindow
+        : 0;
+      for (let offset = lowerBound; offset <= upperBound; offset++) {
+        const dataInput = suite.counter
+          ? this.#createDataInput(counter + offset, 0, options)
+          : this.#createDataInput(counter, offset, options);
+        if (await this.validateCodeNoSideEffects(code, dataInput)) {
+          if ((options?.sideEffects ?? true) && suite.counter) {
+            // A lower moving factor must not roll the counter back and reopen used responses
+            this.#counter = Math.max(this.#counter, counter + offset + 1);
+          }
+          if (suite.counter) {
+            return {
+              valid: true,
+              matchedMovingFactor: counter + offset,
+              delta: offset,
+            };
+          }
+          if (suite.timeStepSize !== undefined) {
+            return {
+              valid: true,
+              matchedMovingFactor: calculateTimeStep(
+                suite.timeStepSize,
+                options?.time ?? this.clock.now() / 1000,
+              ) + offset,
+              delta: offset,
+            };
+          }
+          return { valid: true };
+        }
+      }
+      return { valid: false, reason: ValidationFailureReason.Mismatch };
+    });
+  }
+
+  protected exportState(): OtpState {
+    return { counter: this.#counter };
+  }
+
+  protected importState(state: OtpState) {
+    if (state.counter !== undefined) this.#counter = state.counter;
+  }
+
+  toJSON(): SerializedOcra {
+    return {
+      type: "ocra",
+      ...this.serializeBase(),
+      suite: this.#suite,
+      counter: this.#counter,
+    };
+  }
+
+  /**
+   * Restores an instance serialized by toJSON, the algorithm and the digits are taken from the suite.
+   * @param json JSON string or already parsed object.
+   * @param options Runtime dependencies which are not serialized.
+   * @throws SyntaxError if the JSON string is malformed.
+   * @throws TypeError if the payload is not a valid serialized Ocra or the suite is not valid.
+   * @throws RangeError if the version is not supported or a value is out of range.
+   */
+  static fromJSON(json: unknown, options?: RestoreOptions): Ocra {
+    const payload = parseSerializedOtp(json, "ocra");
+    return new Ocra(payload.secret, {
+      ...options,
+      suite: payload.suite,
+      counter: payload.counter,
+      validationWindow: payload.validationWindow,
+      pastWindow: payload.pastWindow,
+      futureWindow: payload.futureWindow,
+    });
+  }
+
+  /**
+   * OCRA has no standardized key URI format.
+   * @throws TypeError always
+   */
+  toUri(): string {
+    throw new TypeError("OCRA does not support key URIs.");
+  }
+
+  /** Concatenates the suite, a zero byte, the counter, the challenge, the PIN hash, the session information and the time step. */
+  #createDataInput(
+    counter: number,
+    timeStepOffset: number,
+    input?: OcraInput,
+  ): Uint8Array {
+    const suite = this.#parsedSuite;
+    const parts: Uint8Array[] = [
+      new TextEncoder().encode(this.#suite),
+      new Uint8Array(1),
+    ];
+
+    if (suite.counter) parts.push(numberToBytes(counter));
+
+    if (input?.challenge === undefined) {
+      throw new TypeError("The OCRA suite requires a challenge.");
+    }
+    parts.push(
+      encodeChallenge(
+        input.challenge,
+        suite.challengeFormat,
+        input.mutual ? suite.challengeLength * 2 : suite.challengeLength,
+      ),
+    );
+
+    if (suite.pinAlgorithm !== undefined) {
+      let pinHash = input.pinHash;
+      if (pinHash === undefined) {
+        if (input.pin === undefined) {
+          throw new TypeError("The OCRA suite requires a PIN or a PIN hash.");
+        }
+        // Hashed in TypeScript, so OCRA also works without the WebCrypto API
+        pinHash = digest(
+          suite.pinAlgorithm,
+          new TextEncoder().encode(input.pin),
+        );
+      }
+      parts.push(pinHash);
+    }
+
+    if (suite.sessionInformationLength !== undefined) {
+      if (input.sessionInformation === undefined) {
+        throw new TypeError("The OCRA suite requires session information.");
+      }
+      const sessionInformation = typeof input.sessionInformation === "string"
+        ? new TextEncoder().encode(input.sessionInformation)
+        : input.sessionInformation;
+      if (sessionInformation.length > suite.sessionInformationLength) {
+        throw new RangeError(
+          `The session information (${sessionInformation.length} bytes) exceeds the length of the OCRA suite (${suite.sessionInformationLength} bytes).`,
+        );
+      }
+      // Session information is padded with leading zeros
+      const padded = new Uint8Array(suite.sessionInformationLength);
+      padded.set(
+        sessionInformation,
+        suite.sessionInformationLength - sessionInformation.length,
+      );
+      parts.push(padded);
+    }
+
+    if (suite.timeStepSize !== undefined) {
+      parts.push(
+        numberToBytes(
+          calculateTimeStep(
+            suite.timeStepSize,
+            input.time ?? this.clock.now() / 1000,
+          ) + timeStepOffset,
+        ),
+      );
+    }
+
+    const dataInput = new Uint8Array(
+      parts.reduce((length, part) => length + part.length, 0),
+    );
+    let offset = 0;
+    for (const part of parts) {
+      dataInput.set(part, offset);
+      offset += part.length;
+    }
+    return dataInput;
+  }
+}
+
+/**
+ * Parses an OCRA suite like `OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1-S064-T1M`.
+ * @param suite
+ * @throws TypeError if the suite is malformed or uses unsupported values.
+ */
+export function parseOcraSuite(suite: string): OcraSuite {
+  const [version, cryptoFunction, dataInput, ...rest] = suite.split(":");
+  if (version !== "OCRA-1" || dataInput === undefined || rest.length !== 0) {
+    throw new TypeError(
+      `The OCRA suite "${suite}" has to follow the format OCRA-1:CryptoFunction:DataInput.`,
+    );
+  }
+
+  const cryptoMatch = /^HOTP-(SHA1|SHA256|SHA512)-(\d{1,2})$/.exec(
+    cryptoFunction,
+  );
+  if (cryptoMatch === null) {
+    throw new TypeError(
+      `The OCRA crypto function "${cryptoFunction}" is not supported, use HOTP-SHA1-6 for example.`,
+    );
+  }
+  const digits = parseInt(cryptoMatch[2]);
+  if (digits < 4 || digits > 10) {
+    throw new TypeError(
+      `The OCRA truncation to ${digits} digits is not supported, use 4 to 10 digits.`,
+    );
+  }
+
+  const parsedSuite: Partial<OcraSuite> = {
+    algorithm: toOtpAlgorithm(cryptoMatch[1]),
+    digits,
+    counter: false,
+  };
+  const inputs = dataInput.split("-");
+  if (inputs[0] === "C") {
+    parsedSuite.counter = true;
+    inputs.shift();
+  }
+
+  const challengeMatch = /^Q([ANH])(\d{2})$/.exec(inputs.shift() ?? "");
+  if (challengeMatch === null) {
+    throw new TypeError(
+      `The OCRA data input "${dataInput}" requires a challenge like QN08.`,
+    );
+  }
+  parsedSuite.challengeFormat = challengeMatch[1] as OcraChallengeFormat;
+  parsedSuite.challengeLength = parseInt(challengeMatch[2]);
+  if (parsedSuite.challengeLength < 4 || parsedSuite.challengeLength > 64) {
+    throw new TypeError(
+      `The OCRA challenge length ${parsedSuite.challengeLength} is not in the range of 4 to 64.`,
+    );
+  }
+
+  let input = inputs.shift();
+  const pinMatch = /^P(SHA1|SHA256|SHA512)$/.exec(input ?? "");
+  if (pinMatch !== null) {
+    parsedSuite.pinAlgorithm = toOtpAlgorithm(pinMatch[1]);
+    input = inputs.shift();
+  }
+  const sessionMatch = /^S(\d{3})$/.exec(input ?? "");
+  if (sessionMatch !== null) {
+    parsedSuite.sessionInformationLength = parseInt(sessionMatch[1]);
+    input = inputs.shift();
+  }
+  const timeMatch = /^T(\d{1,2})([SMH])$/.exec(input ?? "");
+  if (timeMatch !== null) {
+    const value = parseInt(timeMatch[1]);
+    const unit = timeMatch[2];
+    if (
+      (unit === "H" && value > 48) ||
+      (unit !== "H" && (value < 1 || value > 59))
+    ) {
+      throw new TypeError(
+        `The OCRA time step "${input}" is out of range, use 1S to 59S, 1M to 59M or 0H to 48H.`,
+      );
+    }
+    parsedSuite.timeStepSize = value *
+      (unit === "S" ? 1 : unit === "M" ? 60 : 3600);
+    if (parsedSuite.timeStepSize === 0) {
+      throw new TypeError("The OCRA time step must not be zero.");
+    }
+    input = inputs.shift();
+  }
+  if (input !== undefined) {
+    throw new TypeError(
+      `The OCRA data input "${input}" is not supported or in the wrong order.`,
+    );
+  }
+  return parsedSuite as OcraSuite;
+}
+
+function calculateTimeStep(timeStepSize: number, seconds: number): number {
+  return Math.floor(Math.floor(seconds) / timeStepSize);
+}
+
+function toOtpAlgorithm(name: string): OtpAlgorithm {
+  return name === "SHA1"
+    ? OtpAlgorithm.SHA1
+    : name === "SHA256"
+    ? OtpAlgorithm.SHA256
+    : OtpAlgorithm.SHA512;
+}
+
+/**
+ * Encodes the challenge to 128 bytes, padded with trailing zeros.
+ * @param challenge
+ * @param format
+ * @param maxLength
+ * @throws TypeError if the challenge contains characters not allowed by the format.
+ * @throws RangeError if the challenge is longer than allowed by the suite.
+ */
+function encodeChallenge(
+  challenge: string,
+  format: OcraChallengeFormat,
+  maxLength: number,
+): Uint8Array {
+  if (challenge.length > maxLength) {
+    throw new RangeError(
+      `The OCRA challenge "${challenge}" exceeds the ${maxLength} characters of the suite.`,
+    );
+  }
+  let hex: string;
+  if (format === OcraChallengeFormat.Numeric) {
+    if (!/^\d+$/.test(challenge)) {
+      throw new TypeError(
+        `The numeric OCRA challenge "${challenge}" may only contain digits.`,
+      );
+    }
+    hex = BigInt(challenge).toString(16);
+  } else if (format === OcraChallengeFormat.Hexadecimal) {
+    if (!/^[0-9a-fA-F]+$/.test(challenge)) {
+      throw new TypeError(
+        `The hexadecimal OCRA challenge "${challenge}" may only contain hex digits.`,
+      );
+    }
+    hex = challenge;
+  } else {
+    if (!/^[\x20-\x7e]+$/.test(challenge)) {
+      throw new TypeError(
+        `The alphanumeric OCRA challenge "${challenge}" may only contain printable ASCII characters.`,
+      );
+    }
+    hex = [...new TextEncoder().encode(challenge)].map((byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join("");
+  }
+  if (hex.length > challengeByteLength * 2) {
+    throw new RangeError(
+      `The OCRA challenge "${challenge}" exceeds ${challengeByteLength} bytes.`,
+    );
+  }
+  hex = hex.padEnd(challengeByteLength * 2, "0");
+  const bytes = new Uint8Array(challengeByteLength);
+  for (let i = 0; i < challengeByteLength; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
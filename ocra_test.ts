@@ -0,0 +1,483 @@
+import {
+  assert,
+  assertEquals,
+  assertFalse,
+  assertRejects,
+  assertThrows,
+} from "./test_deps.ts";
+import {
+  Ocra,
+  OcraChallengeFormat,
+  OcraGenerateOptions,
+  parseOcraSuite,
+} from "./ocra.ts";
+import { OtpAlgorithm } from "./otp.ts";
+
+// RFC 6287 appendix C test vectors
+{
+  const seed20 = new TextEncoder().encode("12345678901234567890");
+  const seed32 = new TextEncoder().encode(
+    "12345678901234567890123456789012",
+  );
+  const seed64 = new TextEncoder().encode(
+    "1234567890123456789012345678901234567890123456789012345678901234",
+  );
+  const pin = "1234";
+  // 20 Mar 2008 1:20:00 GMT is the time step 0x132d0b6 with a step size of one minute
+  const time = 0x132d0b6 * 60;
+
+  const generate = (ocra: Ocra, options: OcraGenerateOptions) =>
+    ocra.generate({ formatCode: false, sideEffects: false, ...options });
+
+  Deno.test({
+    name: "One-way challenge-response is RFC compliant",
+    async fn(): Promise<void> {
+      const sha1Codes = [
+        "237653",
+        "243178",
+        "653583",
+        "740991",
+        "608993",
+        "388898",
+        "816933",
+        "224598",
+        "750600",
+        "294470",
+      ];
+      const sha1Ocra = new Ocra(seed20, { suite: "OCRA-1:HOTP-SHA1-6:QN08" });
+      for (let i = 0; i < sha1Codes.length; i++) {
+        assertEquals(
+          await generate(sha1Ocra, { challenge: `${i}`.repeat(8) }),
+          sha1Codes[i],
+        );
+      }
+
+      const counterCodes = [
+        "65347737",
+        "86775851",
+        "78192410",
+        "71565254",
+        "10104329",
+        "65983500",
+        "70069104",
+        "91771096",
+        "75011558",
+        "08522129",
+      ];
+      const counterOcra = new Ocra(seed32, {
+        suite: "OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1",
+      });
+      for (let i = 0; i < counterCodes.length; i++) {
+        assertEquals(
+          await generate(counterOcra, {
+            movingFactor: i,
+            challenge: "12345678",
+            pin,
+          }),
+          counterCodes[i],
+        );
+      }
+
+      const pinCodes = [
+        "83238735",
+        "01501458",
+        "17957585",
+        "86776967",
+        "86807031",
+      ];
+      const pinOcra = new Ocra(seed32, {
+        suite: "OCRA-1:HOTP-SHA256-8:QN08-PSHA1",
+      });
+      for (let i = 0; i < pinCodes.length; i++) {
+        assertEquals(
+          await generate(pinOcra, { challenge: `${i}`.repeat(8), pin }),
+          pinCodes[i],
+        );
+      }
+
+      const sha512Codes = [
+        "07016083",
+        "63947962",
+        "70123924",
+        "25341727",
+        "33203315",
+        "34205738",
+        "44343969",
+        "51946085",
+        "20403879",
+        "31409299",
+      ];
+      const sha512Ocra = new Ocra(seed64, {
+        suite: "OCRA-1:HOTP-SHA512-8:C-QN08",
+      });
+      for (let i = 0; i < sha512Codes.length; i++) {
+        assertEquals(
+          await generate(sha512Ocra, {
+            movingFactor: i,
+            challenge: `${i}`.repeat(8),
+          }),
+          sha512Codes[i],
+        );
+      }
+
+      const timeCodes = [
+        "95209754",
+        "55907591",
+        "22048402",
+        "24218844",
+        "36209546",
+      ];
+      const timeOcra = new Ocra(seed64, {
+        suite: "OCRA-1:HOTP-SHA512-8:QN08-T1M",
+      });
+      for (let i = 0; i < timeCodes.length; i++) {
+        assertEquals(
+          await generate(timeOcra, { challenge: `${i}`.repeat(8), time }),
+          timeCodes[i],
+        );
+      }
+    },
+  });
+
+  Deno.test({
+    name: "Mutual challenge-response is RFC compliant",
+    async fn(): Promise<void> {
+      const serverSha256Codes = [
+        "28247970",
+        "01984843",
+        "65387857",
+        "03351211",
+        "83412541",
+      ];
+      const clientSha256Codes = [
+        "15510767",
+        "90175646",
+        "33777207",
+        "95285278",
+        "28934924",
+      ];
+      const sha256Ocra = new Ocra(seed32, {
+        suite: "OCRA-1:HOTP-SHA256-8:QA08",
+      });
+      for (let i = 0; i < 5; i++) {
+        assertEquals(
+          await generate(sha256Ocra, {
+            challenge: `CLI2222${i}SRV1111${i}`,
+            mutual: true,
+          }),
+          serverSha256Codes[i],
+        );
+        assertEquals(
+          await generate(sha256Ocra, {
+            challenge: `SRV1111${i}CLI2222${i}`,
+            mutual: true,
+          }),
+          clientSha256Codes[i],
+        );
+      }
+
+      const serverSha512Codes = [
+        "79496648",
+        "76831980",
+        "12250499",
+        "90856481",
+        "12761449",
+      ];
+      const clientSha512Codes = [
+        "18806276",
+        "70020315",
+        "01600026",
+        "18951020",
+        "32528969",
+      ];
+      const serverSha512Ocra = new Ocra(seed64, {
+        suite: "OCRA-1:HOTP-SHA512-8:QA08",
+      });
+      const clientSha512Ocra = new Ocra(seed64, {
+        suite: "OCRA-1:HOTP-SHA512-8:QA08-PSHA1",
+      });
+      for (let i = 0; i < 5; i++) {
+        assertEquals(
+          await generate(serverSha512Ocra, {
+            challenge: `CLI2222${i}SRV1111${i}`,
+            mutual: true,
+          }),
+          serverSha512Codes[i],
+        );
+        assertEquals(
+          await generate(clientSha512Ocra, {
+            challenge: `SRV1111${i}CLI2222${i}`,
+            mutual: true,
+            pin,
+          }),
+          clientSha512Codes[i],
+        );
+      }
+    },
+  });
+
+  Deno.test({
+    name: "Plain signature is RFC compliant",
+    async fn(): Promise<void> {
+      const sha256Codes = [
+        "53095496",
+        "04110475",
+        "31331128",
+        "76028668",
+        "46554205",
+      ];
+      const sha256Ocra = new Ocra(seed32, {
+        suite: "OCRA-1:HOTP-SHA256-8:QA08",
+      });
+      for (let i = 0; i < sha256Codes.length; i++) {
+        assertEquals(
+          await generate(sha256Ocra, { challenge: `SIG1${i}000` }),
+          sha256Codes[i],
+        );
+      }
+
+      const timeCodes = [
+        "77537423",
+        "31970405",
+        "10235557",
+        "95213541",
+        "65360607",
+      ];
+      const timeOcra = new Ocra(seed64, {
+        suite: "OCRA-1:HOTP-SHA512-8:QA10-T1M",
+      });
+      for (let i = 0; i < timeCodes.length; i++) {
+        assertEquals(
+          await generate(timeOcra, { challenge: `SIG1${i}00000`, time }),
+          timeCodes[i],
+        );
+      }
+    },
+  });
+
+  Deno.test({
+    name: "validate() uses a look ahead window for the counter",
+    async fn(): Promise<void> {
+      const ocra = new Ocra(seed32, {
+        suite: "OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1",
+        validationWindow: 5,
+      });
+      // Response for the counter 3
+      assert(await ocra.validate("7156 5254", { challenge: "12345678", pin }));
+      assertEquals(ocra.counter, 4);
+      assertFalse(
+        await ocra.validate("71565254", { challenge: "12345678", pin }),
+      );
+      // Wrong PIN
+      assertFalse(
+        await ocra.validate("10104329", { challenge: "12345678", pin: "4321" }),
+      );
+      assertEquals(ocra.counter, 4);
+      // A lower moving factor does not roll the counter back
+      assert(
+        await ocra.validate("71565254", {
+          challenge: "12345678",
+          pin,
+          movingFactor: 0,
+        }),
+      );
+      assertEquals(ocra.counter, 4);
+    },
+  });
+
+  Deno.test({
+    name: "validate() uses a window of time steps",
+    async fn(): Promise<void> {
+      const ocra = new Ocra(seed64, {
+        suite: "OCRA-1:HOTP-SHA512-8:QN08-T1M",
+        validationWindow: 1,
+      });
+      assert(
+        await ocra.validate("95209754", { challenge: "00000000", time }),
+      );
+      assert(
+        await ocra.validate("95209754", {
+          challenge: "00000000",
+          time: time + 60,
+        }),
+      );
+      assertFalse(
+        await ocra.validate("95209754", {
+          challenge: "00000000",
+          time: time + 120,
+        }),
+      );
+    },
+  });
+
+  Deno.test({
+    name: "generate() increments the counter of counter based suites only",
+    async fn(): Promise<void> {
+      const counterOcra = new Ocra(seed64, {
+        suite: "OCRA-1:HOTP-SHA512-8:C-QN08",
+      });
+      assertEquals(
+        await counterOcra.generate({
+          challenge: "00000000",
+          sideEffects: true,
+        }),
+        "0701 6083",
+      );
+      assertEquals(counterOcra.counter, 1);
+
+      const ocra = new Ocra(seed20, { suite: "OCRA-1:HOTP-SHA1-6:QN08" });
+      await ocra.generate({ challenge: "00000000", sideEffects: true });
+      assertEquals(ocra.counter, 0);
+    },
+  });
+
+  Deno.test({
+    name: "generate() rejects missing and malformed inputs",
+    async fn(): Promise<void> {
+      const ocra = new Ocra(seed32, {
+        suite: "OCRA-1:HOTP-SHA256-8:QN08-PSHA1-S064",
+      });
+      await assertRejects(
+        () => generate(ocra, { pin, sessionInformation: "session" }),
+        TypeError,
+        "challenge",
+      );
+      await assertRejects(
+        () =>
+          generate(ocra, {
+            challenge: "1234ABCD",
+            pin,
+            sessionInformation: "session",
+          }),
+        TypeError,
+        "digits",
+      );
+      await assertRejects(
+        () => generate(ocra, { challenge: "12345678", sessionInformation: "" }),
+        TypeError,
+        "PIN",
+      );
+      await assertRejects(
+        () => generate(ocra, { challenge: "12345678", pin }),
+        TypeError,
+        "session",
+      );
+      await assertRejects(
+        () =>
+          generate(ocra, {
+            challenge: "12345678",
+            pin,
+            sessionInformation: "x".repeat(65),
+          }),
+        RangeError,
+      );
+    },
+  });
+
+  Deno.test({
+    name: "generate() rejects challenges not matching the suite",
+    async fn(): Promise<void> {
+      const numeric = new Ocra(seed32, { suite: "OCRA-1:HOTP-SHA256-8:QN08" });
+      await assertRejects(
+        () => generate(numeric, { challenge: "1".repeat(9) }),
+        RangeError,
+        "8 characters",
+      );
+      await assertRejects(
+        () => generate(numeric, { challenge: "1234ABCD" }),
+        TypeError,
+        "digits",
+      );
+      const hexadecimal = new Ocra(seed32, {
+        suite: "OCRA-1:HOTP-SHA256-8:QH04",
+      });
+      await assertRejects(
+        () => generate(hexadecimal, { challenge: "ABCDE" }),
+        RangeError,
+      );
+      await assertRejects(
+        () => generate(hexadecimal, { challenge: "ABCG" }),
+        TypeError,
+        "hex",
+      );
+      const alphanumeric = new Ocra(seed32, {
+        suite: "OCRA-1:HOTP-SHA256-8:QA08",
+      });
+      await assertRejects(
+        () => generate(alphanumeric, { challenge: "CLI22220SRV11110" }),
+        RangeError,
+      );
+      await assertRejects(
+        () =>
+          generate(alphanumeric, {
+            challenge: "CLI22220SRV111100",
+            mutual: true,
+          }),
+        RangeError,
+      );
+      await assertRejects(
+        () => generate(alphanumeric, { challenge: "CLI\n2222" }),
+        TypeError,
+        "printable",
+      );
+      // The two challenges of mutual challenge-response fit twice the length
+      await generate(alphanumeric, {
+        challenge: "CLI22220SRV11110",
+        mutual: true,
+      });
+    },
+  });
+}
+
+Deno.test({
+  name: "parseOcraSuite() parses all data inputs",
+  fn(): void {
+    assertEquals(parseOcraSuite("OCRA-1:HOTP-SHA1-6:QN08"), {
+      algorithm: OtpAlgorithm.SHA1,
+      digits: 6,
+      counter: false,
+      challengeFormat: OcraChallengeFormat.Numeric,
+      challengeLength: 8,
+    });
+    assertEquals(
+      parseOcraSuite("OCRA-1:HOTP-SHA512-10:C-QH40-PSHA256-S128-T30S"),
+      {
+        algorithm: OtpAlgorithm.SHA512,
+        digits: 10,
+        counter: true,
+        challengeFormat: OcraChallengeFormat.Hexadecimal,
+        challengeLength: 40,
+        pinAlgorithm: OtpAlgorithm.SHA256,
+        sessionInformationLength: 128,
+        timeStepSize: 30,
+      },
+    );
+    assertEquals(
+      parseOcraSuite("OCRA-1:HOTP-SHA1-6:QA10-T2H").timeStepSize,
+      7200,
+    );
+  },
+});
+
+Deno.test({
+  name: "parseOcraSuite() rejects malformed suites",
+  fn(): void {
+    for (
+      const suite of [
+        "OCRA-2:HOTP-SHA1-6:QN08",
+        "OCRA-1:HOTP-SHA1-6",
+        "OCRA-1:HOTP-MD5-6:QN08",
+        "OCRA-1:HOTP-SHA1-0:QN08",
+        "OCRA-1:HOTP-SHA1-11:QN08",
+        "OCRA-1:HOTP-SHA1-6:C",
+        "OCRA-1:HOTP-SHA1-6:QX08",
+        "OCRA-1:HOTP-SHA1-6:QN65",
+        "OCRA-1:HOTP-SHA1-6:QN08-T1M-PSHA1",
+        "OCRA-1:HOTP-SHA1-6:QN08-T60S",
+        "OCRA-1:HOTP-SHA1-6:QN08-X",
+      ]
+    ) {
+      assertThrows(() => new Ocra(new Uint8Array(20), { suite }), TypeError);
+    }
+  },
+});
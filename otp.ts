@@ -1,10 +1,28 @@
+import {
+  CodeEncodings,
+  codeLengthRange,
+  encodeCode,
+  isEncodedCode,
+  validateCodeEncoding,
+} from "./code_encoding.ts";
+import type { CodeEncoding } from "./code_encoding.ts";
 import { byteLength, decode, encode } from "./deps.ts";
+import { hmac, webCryptoHmacProvider } from "./hmac.ts";
+import type { HmacProvider } from "./hmac.ts";
+import { formatKeyUri } from "./key_uri.ts";
+import type { KeyUri, KeyUriLabel, KeyUriType } from "./key_uri.ts";
+import { stateEquals } from "./state_store.ts";
+import { serializationVersion } from "./serialization.ts";
+import type { SerializedOtp, SerializedOtpBase } from "./serialization.ts";
+import type { OtpState, OtpStateStore } from "./state_store.ts";
+import type { ThrottlePolicy } from "./throttle.ts";
 import {
   calculateHmacDigest,
   cleanUserInputFormat,
   cleanUserInputFormatAndAddBase32Padding,
-  extractCodeFromHmacShaDigest,
   isBase32,
+  numberToBytes,
+  truncateHmacShaDigest,
 } from "./util.ts";
 
 /** The values have to follow the naming convention of the WebCrypto API. */
@@ -40,10 +58,98 @@ export interface ValidateOptions {
   validateAgainstWindow: boolean;
 }
 
+export enum ValidationFailureReason {
+  /** The code does not match any moving factor in the validation window. */
+  Mismatch = "mismatch",
+  /** The code matches, but it was already used. */
+  Replayed = "replayed",
+  /** The code does not consist of the expected amount of digits. */
+  Malformed = "malformed",
+  /** Validation is not allowed, because the account is locked. */
+  Locked = "locked",
+  /** Validation is delayed, because of the preceding failures. */
+  Throttled = "throttled",
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  /** Moving factor (counter or time step) the code was generated with. */
+  matchedMovingFactor?: number;
+  /** Difference between the matched and the expected moving factor. */
+  delta?: number;
+  /** Reason why the code is not valid. */
+  reason?: ValidationFailureReason;
+  /** Milliseconds until the next validation is allowed if the validation was throttled. */
+  retryAfter?: number;
+}
+
+/** Source of the current time, e.g. a trusted time service or a fixed time in tests. */
+export interface Clock {
+  /** Returns the milliseconds since the Unix epoch like Date.now. */
+  now(): number;
+}
+
+/** Clock using the system time. */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
 export interface OtpOptions {
+  /** Length of the codes, which is limited by the code encoding. */
   digits?: number;
+  /** Characters of the codes, defaults to decimal digits. */
+  codeEncoding?: CodeEncoding;
+  /** Window of moving factors accepted in both directions, which is the default of pastWindow and futureWindow. */
   validationWindow?: number;
+  /** Amount of moving factors before the expected one which are accepted, e.g. for network delays. */
+  pastWindow?: number;
+  /** Amount of moving factors after the expected one which are accepted, e.g. the HOTP look ahead window. */
+  futureWindow?: number;
   algorithm?: OtpAlgorithm;
+  /** Minimum length of the secret in bytes, RFC 4226 requires at least 16 bytes. */
+  minimumSecretLength?: number;
+  /**
+   * Store which provides the state before and persists it after every side effect of generate and validate.
+   * The stored state takes precedence over the state passed to the constructor or set with methods like resetCounter.
+   */
+  stateStore?: OtpStateStore;
+  /** Id of the account in the state store, required if a state store is used. */
+  accountId?: string;
+  /** Policy limiting the amount of failed validations, its state is persisted in the state store. */
+  throttlePolicy?: ThrottlePolicy;
+  /** Source of the current time used by time based codes and the throttle policy, defaults to the system time. */
+  clock?: Clock;
+  /** Implementation of the HMAC, defaults to the WebCrypto API, e.g. pureHmacProvider where `crypto.subtle` is unavailable. */
+  hmacProvider?: HmacProvider;
+}
+
+/** Tails of the operation queues per owner (instance or state store) and account id. */
+const operationQueues = new WeakMap<object, Map<string, Promise<unknown>>>();
+
+/**
+ * Runs the operation after all operations which were queued before for the same owner and key.
+ * @param owner
+ * @param key
+ * @param operation
+ */
+function serialize<T>(
+  owner: object,
+  key: string,
+  operation: () => Promise<T>,
+): Promise<T> {
+  let queues = operationQueues.get(owner);
+  if (queues === undefined) {
+    queues = new Map();
+    operationQueues.set(owner, queues);
+  }
+  const result = (queues.get(key) ?? Promise.resolve()).then(operation);
+  const tail = result.catch(() => {});
+  queues.set(key, tail);
+  tail.then(() => {
+    // Remove the queue once it is empty, so unused account ids do not pile up
+    if (queues?.get(key) === tail) queues.delete(key);
+  });
+  return result;
 }
 
 export abstract class Otp {
@@ -54,19 +160,84 @@ export abstract class Otp {
     return this.#digits;
   }
 
+  #codeEncoding = CodeEncodings.Decimal;
+  public get codeEncoding(): CodeEncoding {
+    return this.#codeEncoding;
+  }
+
   #validationWindow = 0;
   public get validationWindow(): number {
     return this.#validationWindow;
   }
 
+  #pastWindow?: number;
+  public get pastWindow(): number {
+    return this.#pastWindow ?? this.#validationWindow;
+  }
+
+  #futureWindow?: number;
+  public get futureWindow(): number {
+    return this.#futureWindow ?? this.#validationWindow;
+  }
+
   #algorithm = OtpAlgorithm.SHA1;
   public get algorithm(): OtpAlgorithm {
     return this.#algorithm;
   }
 
+  #stateStore?: OtpStateStore;
+  public get stateStore(): OtpStateStore | undefined {
+    return this.#stateStore;
+  }
+
+  #accountId?: string;
+  public get accountId(): string | undefined {
+    return this.#accountId;
+  }
+
+  #clock = systemClock;
+  public get clock(): Clock {
+    return this.#clock;
+  }
+
+  #hmacProvider = webCryptoHmacProvider;
+  public get hmacProvider(): HmacProvider {
+    return this.#hmacProvider;
+  }
+
+  #throttlePolicy?: ThrottlePolicy;
+  public get throttlePolicy(): ThrottlePolicy | undefined {
+    return this.#throttlePolicy;
+  }
+
+  #failedAttempts = 0;
+  /** Consecutive failed validations counted by the throttle policy. */
+  public get failedAttempts(): number {
+    return this.#failedAttempts;
+  }
+
+  #blockedUntil?: number;
+  /** Time in milliseconds since the Unix epoch until validation is delayed by the throttle policy. */
+  public get blockedUntil(): number | undefined {
+    return this.#blockedUntil;
+  }
+
+  /** Asynchronous operations which are queued or running, synchronous operations are rejected meanwhile. */
+  #pendingOperations = 0;
+
+  /** True if the throttle policy locked validation until unlock is called. */
+  public get locked(): boolean {
+    return this.#throttlePolicy?.isLocked(this.#failedAttempts) ?? false;
+  }
+
+  /** Smallest amount of digits accepted by the constructor, RFC 4226 requires at least 6 digits. */
+  protected static minimumDigits = 6;
+
   /**
    * @param secret Secret in unencoded Uint8Array or Base32 encoded string representation.
-   * @param options Options to configure the number of digits, the size of the validation window and the algorithm.
+   * @param options Options to configure the number of digits, the size of the validation windows, the algorithm, the state store and the throttle policy.
+   * @throws TypeError if a state store is used without an account id or the alphabet of the code encoding is invalid.
+   * @throws RangeError if the digits are not between 6 and 10 (or the equivalent for other code encodings), a window is negative or the secret is shorter than the minimum secret length.
    */
   constructor(
     secret: Uint8Array | string,
@@ -75,12 +246,232 @@ export abstract class Otp {
     if (typeof secret === "string") {
       secret = decode(cleanUserInputFormatAndAddBase32Padding(secret));
     }
+    if (
+      options?.minimumSecretLength !== undefined &&
+      secret.length < options.minimumSecretLength
+    ) {
+      throw new RangeError(
+        `Secret must be at least ${options.minimumSecretLength} bytes long.`,
+      );
+    }
     this.#secret = secret;
+    if (options?.codeEncoding !== undefined) {
+      validateCodeEncoding(options.codeEncoding);
+      this.#codeEncoding = options.codeEncoding;
+    }
     if (options?.digits !== undefined) this.#digits = options.digits;
+    const { minimum, maximum } = codeLengthRange(
+      this.#codeEncoding,
+      new.target.minimumDigits,
+    );
+    if (
+      !Number.isInteger(this.#digits) || this.#digits < minimum ||
+      this.#digits > maximum
+    ) {
+      throw new RangeError(
+        `The digits must be an integer between ${minimum} and ${maximum}.`,
+      );
+    }
+    for (
+      const name of ["validationWindow", "pastWindow", "futureWindow"] as const
+    ) {
+      const window = options?.[name];
+      if (window !== undefined && (!Number.isInteger(window) || window < 0)) {
+        throw new RangeError(`The ${name} must be a non-negative integer.`);
+      }
+    }
     if (options?.validationWindow !== undefined) {
       this.#validationWindow = options.validationWindow;
     }
+    this.#pastWindow = options?.pastWindow;
+    this.#futureWindow = options?.futureWindow;
     if (options?.algorithm !== undefined) this.#algorithm = options?.algorithm;
+    if (options?.stateStore !== undefined) {
+      if (options.accountId === undefined) {
+        throw new TypeError("A state store requires an account id.");
+      }
+      this.#stateStore = options.stateStore;
+      this.#accountId = options.accountId;
+    }
+    this.#throttlePolicy = options?.throttlePolicy;
+    if (options?.clock !== undefined) this.#clock = options.clock;
+    if (options?.hmacProvider !== undefined) {
+      this.#hmacProvider = options.hmacProvider;
+    }
+  }
+
+  /** Returns the state which is changed by side effects, e.g. the counter. */
+  protected abstract exportState(): OtpState;
+
+  /**
+   * Replaces the state with the one loaded from the state store.
+   * @param state
+   */
+  protected abstract importState(state: OtpState): void;
+
+  /**
+   * Loads the state from the state store, runs the operation and stores the state if it was changed.
+   * If the stored state was changed in the meantime, the operation is repeated with the reloaded state.
+   * Runs the operation only if no state store is used.
+   * Operations of the same instance, or of all instances sharing an account in a state store, run one after another,
+   * so concurrent validations can not accept the same code twice.
+   * @param operation
+   */
+  protected async withState<T>(operation: () => Promise<T>): Promise<T> {
+    const stateStore = this.#stateStore;
+    const accountId = this.#accountId;
+    this.#pendingOperations++;
+    try {
+      if (stateStore === undefined || accountId === undefined) {
+        return await serialize(this, "", operation);
+      }
+      return await this.#withStoredState(stateStore, accountId, operation);
+    } finally {
+      this.#pendingOperations--;
+    }
+  }
+
+  async #withStoredState<T>(
+    stateStore: OtpStateStore,
+    accountId: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    return await serialize(stateStore, accountId, async () => {
+      for (;;) {
+        const storedState = await stateStore.get(accountId);
+        if (storedState !== undefined) this.#importState(storedState);
+        const previousState = this.#exportState();
+        const result = await operation();
+        const state = this.#exportState();
+        if (
+          stateEquals(previousState, state) ||
+          await stateStore.compareAndSet(accountId, storedState, {
+            ...storedState,
+            ...state,
+          })
+        ) {
+          return result;
+        }
+        // Discard the changes, the operation is repeated with the state changed by another process
+        this.#importState(previousState);
+      }
+    });
+  }
+
+  /**
+   * Runs the validation like withState, but rejects it while the throttle policy locks or delays validation.
+   * Valid codes reset the failed attempts and every other failure except malformed codes is counted, regardless of options.sideEffects.
+   * @param operation
+   */
+  protected async withThrottledState(
+    operation: () => Promise<ValidationResult>,
+  ): Promise<ValidationResult> {
+    return await this.withState(async () => {
+      const rejection = this.#checkThrottle();
+      if (rejection !== undefined) return rejection;
+      const result = await operation();
+      this.#countAttempt(result);
+      return result;
+    });
+  }
+
+  /**
+   * Runs the operation like withState, but synchronously, which is not possible with a state store.
+   * @param operation
+   * @throws TypeError if a state store is used, because its methods are asynchronous.
+   * @throws Error if an asynchronous operation of this instance is still running.
+   */
+  protected withStateSync<T>(operation: () => T): T {
+    if (this.#stateStore !== undefined) {
+      throw new TypeError(
+        "Synchronous operations are not supported with a state store.",
+      );
+    }
+    if (this.#pendingOperations > 0) {
+      throw new Error(
+        "Synchronous operations are not allowed while an asynchronous operation is running.",
+      );
+    }
+    return operation();
+  }
+
+  /**
+   * Runs the validation like withThrottledState, but synchronously like withStateSync.
+   * @param operation
+   * @throws TypeError if a state store is used, because its methods are asynchronous.
+   * @throws Error if an asynchronous operation of this instance is still running.
+   */
+  protected withThrottledStateSync(
+    operation: () => ValidationResult,
+  ): ValidationResult {
+    return this.withStateSync(() => {
+      const rejection = this.#checkThrottle();
+      if (rejection !== undefined) return rejection;
+      const result = operation();
+      this.#countAttempt(result);
+      return result;
+    });
+  }
+
+  /** Returns the failure if the throttle policy locks or delays validation. */
+  #checkThrottle(): ValidationResult | undefined {
+    const throttlePolicy = this.#throttlePolicy;
+    if (throttlePolicy === undefined) return undefined;
+    if (throttlePolicy.isLocked(this.#failedAttempts)) {
+      return { valid: false, reason: ValidationFailureReason.Locked };
+    }
+    const now = this.#clock.now();
+    if (this.#blockedUntil !== undefined && now < this.#blockedUntil) {
+      return {
+        valid: false,
+        reason: ValidationFailureReason.Throttled,
+        retryAfter: this.#blockedUntil - now,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Resets the failed attempts if the validation succeeded and counts them otherwise.
+   * @param result
+   */
+  #countAttempt(result: ValidationResult) {
+    const throttlePolicy = this.#throttlePolicy;
+    if (throttlePolicy === undefined) return;
+    if (result.valid) {
+      this.#failedAttempts = 0;
+      this.#blockedUntil = undefined;
+    } else if (result.reason !== ValidationFailureReason.Malformed) {
+      this.#failedAttempts++;
+      const delay = throttlePolicy.delay(this.#failedAttempts);
+      this.#blockedUntil = delay > 0 ? this.#clock.now() + delay : undefined;
+    }
+  }
+
+  /** Resets the failed attempts counted by the throttle policy, which unlocks validation. */
+  async unlock(): Promise<void> {
+    await this.withState(() => {
+      this.#failedAttempts = 0;
+      this.#blockedUntil = undefined;
+      return Promise.resolve();
+    });
+  }
+
+  #exportState(): OtpState {
+    if (this.#throttlePolicy === undefined) return this.exportState();
+    return {
+      ...this.exportState(),
+      failedAttempts: this.#failedAttempts,
+      blockedUntil: this.#blockedUntil,
+    };
+  }
+
+  #importState(state: OtpState) {
+    this.importState(state);
+    if (this.#throttlePolicy !== undefined) {
+      this.#failedAttempts = state.failedAttempts ?? 0;
+      this.#blockedUntil = state.blockedUntil;
+    }
   }
 
   /**
@@ -120,24 +511,64 @@ export abstract class Otp {
 
   /**
    * Generates the formatted otp code.
-   * The code is formatted in a grouping of three digits followed by a space if the amount of digits is dividable by three and a grouping of four otherwise.
+   * The code is formatted in a grouping of three digits followed by a space if the amount of digits is dividable by three and a grouping of four otherwise,
+   * unless the code encoding defines a grouping.
    * this.validate or this.validateCodeNoSideEffects should be used validate otp codes.
-   * @param movingFactor
+   * @param movingFactor Moving factor or the complete message to sign, e.g. the OCRA data input.
    */
   protected async generateCodeNoSideEffects(
-    movingFactor: number,
+    movingFactor: number | Uint8Array,
     formatCode: boolean,
     options?: GenerateCodeNoSideEffects,
   ): Promise<string> {
-    const extractedCode = extractCodeFromHmacShaDigest(
+    return this.#formatDigest(
       await calculateHmacDigest({
-        movingFactor,
+        ...(typeof movingFactor === "number"
+          ? { movingFactor }
+          : { message: movingFactor }),
         secret: this.#secret,
         algorithm: this.#algorithm,
+        hmacProvider: this.#hmacProvider,
       }),
+      formatCode,
+      options,
+    );
+  }
+
+  /**
+   * Generates the formatted otp code like generateCodeNoSideEffects,
+   * but with the synchronous TypeScript HMAC implementation regardless of the HMAC provider.
+   * @param movingFactor Moving factor or the complete message to sign.
+   */
+  protected generateCodeNoSideEffectsSync(
+    movingFactor: number | Uint8Array,
+    formatCode: boolean,
+    options?: GenerateCodeNoSideEffects,
+  ): string {
+    return this.#formatDigest(
+      hmac(
+        this.#algorithm,
+        this.#secret,
+        typeof movingFactor === "number"
+          ? numberToBytes(movingFactor)
+          : movingFactor,
+      ),
+      formatCode,
+      options,
+    );
+  }
+
+  #formatDigest(
+    digest: Uint8Array,
+    formatCode: boolean,
+    options?: GenerateCodeNoSideEffects,
+  ): string {
+    const extractedCode = encodeCode(
+      truncateHmacShaDigest(digest),
       this.#digits,
+      this.#codeEncoding,
     );
-    let grouping = options?.grouping;
+    let grouping = options?.grouping ?? this.#codeEncoding.grouping;
     if (!formatCode) grouping = 0;
     return Otp.formatCode(
       extractedCode,
@@ -152,18 +583,39 @@ export abstract class Otp {
    * Validates the formatted otp code, ignoring spaces and causes side effects like incrementing a internal counter if options.sideEffects is set to true (default).
    * @param options
    */
-  abstract validate(
+  async validate(
+    code: string,
+    options?: ValidateOptions,
+  ): Promise<boolean> {
+    return (await this.validateDetailed(code, options)).valid;
+  }
+
+  /**
+   * Validates the formatted otp code like this.validate, but returns the matched moving factor, its delta to the expected one and the reason of a failure.
+   * @param options
+   */
+  abstract validateDetailed(
     code: string,
     options?: ValidateOptions,
-  ): Promise<boolean>;
+  ): Promise<ValidationResult>;
+
+  /**
+   * Checks if the code consists of exactly the configured amount of characters of the code encoding, ignoring spaces.
+   * @param code
+   */
+  protected isWellFormedCode(code: string): boolean {
+    const cleanedCode = cleanUserInputFormat(code);
+    return [...cleanedCode].length === this.#digits &&
+      isEncodedCode(cleanedCode, this.#codeEncoding);
+  }
 
   /**
    * Validates the formatted otp code, ignoring spaces.
-   * @param movingFactor
+   * @param movingFactor Moving factor or the complete message to sign, e.g. the OCRA data input.
    */
   protected async validateCodeNoSideEffects(
     code: string,
-    movingFactor: number,
+    movingFactor: number | Uint8Array,
   ): Promise<boolean> {
     return cleanUserInputFormat(code) ===
       cleanUserInputFormat(
@@ -171,6 +623,115 @@ export abstract class Otp {
       );
   }
 
+  /**
+   * Validates the formatted otp code like validateCodeNoSideEffects, but synchronously.
+   * @param movingFactor Moving factor or the complete message to sign.
+   */
+  protected validateCodeNoSideEffectsSync(
+    code: string,
+    movingFactor: number | Uint8Array,
+  ): boolean {
+    return cleanUserInputFormat(code) ===
+      cleanUserInputFormat(
+        this.generateCodeNoSideEffectsSync(movingFactor, false),
+      );
+  }
+
+  /**
+   * Runs the steps of a validation, which yield the moving factors to compare the code with and receive whether the code matched.
+   * Sharing the steps keeps the asynchronous and the synchronous validation identical.
+   * @param code
+   * @param steps
+   */
+  protected async matchCode<T>(
+    code: string,
+    steps: Generator<number, T, boolean>,
+  ): Promise<T> {
+    let step = steps.next();
+    while (!step.done) {
+      step = steps.next(
+        await this.validateCodeNoSideEffects(code, step.value),
+      );
+    }
+    return step.value;
+  }
+
+  /**
+   * Runs the steps of a validation like matchCode, but synchronously.
+   * @param code
+   * @param steps
+   */
+  protected matchCodeSync<T>(
+    code: string,
+    steps: Generator<number, T, boolean>,
+  ): T {
+    let step = steps.next();
+    while (!step.done) {
+      step = steps.next(this.validateCodeNoSideEffectsSync(code, step.value));
+    }
+    return step.value;
+  }
+
+  /**
+   * Returns the versioned serialization of the secret, the parameters and the state, which is used by JSON.stringify.
+   * The state store, throttle policy, clock and HMAC provider are not serialized.
+   */
+  abstract toJSON(): SerializedOtp;
+
+  /** Returns the serialized parameters shared by all Otp types. */
+  protected serializeBase(): SerializedOtpBase {
+    const isDecimal =
+      this.#codeEncoding.alphabet === CodeEncodings.Decimal.alphabet &&
+      !this.#codeEncoding.leastSignificantFirst &&
+      this.#codeEncoding.grouping === undefined;
+    return {
+      version: serializationVersion,
+      secret: encode(this.#secret),
+      algorithm: this.#algorithm,
+      digits: this.#digits,
+      validationWindow: this.#validationWindow,
+      ...(this.#pastWindow !== undefined && { pastWindow: this.#pastWindow }),
+      ...(this.#futureWindow !== undefined &&
+        { futureWindow: this.#futureWindow }),
+      ...(!isDecimal && { codeEncoding: { ...this.#codeEncoding } }),
+    };
+  }
+
+  /**
+   * Creates a key URI like `otpauth://totp/Issuer:account?secret=...` to provision authenticator apps.
+   * @param label Account name and optional issuer shown by the authenticator app.
+   */
+  abstract toUri(label: KeyUriLabel): string;
+
+  /**
+   * Creates a key URI containing the secret, algorithm and digits of this instance.
+   * @param type
+   * @param label
+   * @param parameters Type specific parameters like the counter or the period.
+   * @throws TypeError if the codes are not decimal, which key URIs can not express.
+   */
+  protected createKeyUri(
+    type: KeyUriType,
+    label: KeyUriLabel,
+    parameters: Pick<KeyUri, "counter" | "period">,
+  ): string {
+    if (
+      this.#codeEncoding.alphabet !== CodeEncodings.Decimal.alphabet ||
+      this.#codeEncoding.leastSignificantFirst
+    ) {
+      throw new TypeError("Key URIs only support decimal codes.");
+    }
+    return formatKeyUri({
+      type,
+      accountName: label.accountName,
+      issuer: label.issuer,
+      secret: encode(this.#secret),
+      algorithm: this.#algorithm,
+      digits: this.#digits,
+      ...parameters,
+    });
+  }
+
   /**
    * Groups the digits of the code in groups of three if the amount of digits is dividable by three and groups of four if not.
    * Prepends zeros if the amount of digits is less than the digits parameter.
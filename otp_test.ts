@@ -1,5 +1,7 @@
 import { byteLength } from "./deps.ts";
 import { Otp } from "./otp.ts";
+import { Hotp } from "./hotp.ts";
+import { Totp } from "./totp.ts";
 import {
   assert,
   assertEquals,
@@ -126,3 +128,34 @@ Deno.test({
     );
   },
 });
+
+Deno.test({
+  name: "The constructor rejects nonsensical options",
+  fn(): void {
+    const secret = new TextEncoder().encode("12345678901234567890");
+    for (const digits of [0, 5, 11, 6.5]) {
+      assertThrows(() => new Hotp(secret, { digits }), RangeError, "digits");
+      assertThrows(() => new Totp(secret, { digits }), RangeError, "digits");
+    }
+    for (const digits of [6, 10]) {
+      assertEquals(new Totp(secret, { digits }).digits, digits);
+    }
+    assertThrows(() => new Totp(secret, { stepSize: 0 }), RangeError);
+    assertThrows(() => new Totp(secret, { stepSize: -30 }), RangeError);
+    for (const name of ["validationWindow", "pastWindow", "futureWindow"]) {
+      assertThrows(() => new Hotp(secret, { [name]: -1 }), RangeError, name);
+      assertThrows(() => new Totp(secret, { [name]: 1.5 }), RangeError, name);
+    }
+  },
+});
+
+Deno.test({
+  name: "The past and future windows default to the validation window",
+  fn(): void {
+    const secret = new TextEncoder().encode("12345678901234567890");
+    const totp = new Totp(secret, { validationWindow: 2, pastWindow: 3 });
+    assertEquals(totp.pastWindow, 3);
+    assertEquals(totp.futureWindow, 2);
+    assertEquals(new Hotp(secret).futureWindow, 100);
+  },
+});
@@ -0,0 +1,62 @@
+import { CodeEncodings } from "./code_encoding.ts";
+import type { CodeEncoding } from "./code_encoding.ts";
+import { OtpAlgorithm } from "./otp.ts";
+
+/**
+ * Options which configure the security relevant parameters in one go.
+ * A profile is spread into the options of Hotp and Totp, e.g. `new Totp(secret, { ...OtpProfiles.rfcStrict })`,
+ * and single options can still be overridden after the profile.
+ * Hotp ignores the step size and validates against the future window only.
+ */
+export interface OtpProfile {
+  readonly digits: number;
+  readonly algorithm: OtpAlgorithm;
+  readonly stepSize: number;
+  readonly pastWindow: number;
+  readonly futureWindow: number;
+  readonly minimumSecretLength?: number;
+  readonly codeEncoding?: CodeEncoding;
+}
+
+export const OtpProfiles: {
+  /** Recommendations of RFC 4226 and RFC 6238: 128 bit secrets and at most one time step backward for network delays. */
+  readonly rfcStrict: OtpProfile;
+  /** Parameters supported by Google Authenticator, which ignores the algorithm and the digits and accepts short secrets. */
+  readonly googleAuthenticatorCompatible: OtpProfile;
+  /** More digits, SHA-256, 256 bit secrets and no tolerance for clocks running ahead. */
+  readonly highSecurity: OtpProfile;
+  /** Steam Guard codes of 5 characters from the Steam alphabet. */
+  readonly steamGuard: OtpProfile;
+} = Object.freeze({
+  rfcStrict: Object.freeze({
+    digits: 6,
+    algorithm: OtpAlgorithm.SHA1,
+    stepSize: 30,
+    pastWindow: 1,
+    futureWindow: 0,
+    minimumSecretLength: 16,
+  }),
+  googleAuthenticatorCompatible: Object.freeze({
+    digits: 6,
+    algorithm: OtpAlgorithm.SHA1,
+    stepSize: 30,
+    pastWindow: 1,
+    futureWindow: 1,
+  }),
+  highSecurity: Object.freeze({
+    digits: 8,
+    algorithm: OtpAlgorithm.SHA256,
+    stepSize: 30,
+    pastWindow: 1,
+    futureWindow: 0,
+    minimumSecretLength: 32,
+  }),
+  steamGuard: Object.freeze({
+    digits: 5,
+    algorithm: OtpAlgorithm.SHA1,
+    stepSize: 30,
+    pastWindow: 1,
+    futureWindow: 1,
+    codeEncoding: CodeEncodings.Steam,
+  }),
+});
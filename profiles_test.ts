@@ -0,0 +1,78 @@
+import { assert, assertEquals, assertThrows } from "./test_deps.ts";
+import { Hotp } from "./hotp.ts";
+import { OtpAlgorithm } from "./otp.ts";
+import { OtpProfiles } from "./profiles.ts";
+import { Totp } from "./totp.ts";
+
+const rfcSecret = new TextEncoder().encode("12345678901234567890");
+
+Deno.test({
+  name: "Profiles configure all parameters in one go",
+  fn(): void {
+    const totp = new Totp(
+      new Uint8Array(32),
+      { ...OtpProfiles.highSecurity },
+    );
+    assertEquals(totp.digits, 8);
+    assertEquals(totp.algorithm, OtpAlgorithm.SHA256);
+    assertEquals(totp.stepSize, 30);
+    assertEquals(totp.pastWindow, 1);
+    assertEquals(totp.futureWindow, 0);
+
+    // Options after the profile take precedence
+    const hotp = new Hotp(rfcSecret, {
+      ...OtpProfiles.rfcStrict,
+      futureWindow: 10,
+    });
+    assertEquals(hotp.digits, 6);
+    assertEquals(hotp.futureWindow, 10);
+  },
+});
+
+Deno.test({
+  name: "Profiles enforce the minimum secret length",
+  fn(): void {
+    const shortSecret = new Uint8Array(10);
+    assertThrows(
+      () => new Totp(shortSecret, { ...OtpProfiles.rfcStrict }),
+      RangeError,
+    );
+    assertThrows(
+      () => new Totp(rfcSecret, { ...OtpProfiles.highSecurity }),
+      RangeError,
+    );
+    new Totp(shortSecret, { ...OtpProfiles.googleAuthenticatorCompatible });
+  },
+});
+
+Deno.test({
+  name: "rfcStrict accepts one time step backward only",
+  async fn(): Promise<void> {
+    const step = 37037036;
+    const totp = new Totp(rfcSecret, { ...OtpProfiles.rfcStrict });
+    const options = { sideEffects: false, validateAgainstWindow: true };
+    const codeAt = (offset: number) =>
+      totp.generate({ movingFactor: (step + offset) * 30, sideEffects: false });
+    assert(
+      await totp.validate(await codeAt(-1), {
+        ...options,
+        movingFactor: step * 30,
+      }),
+    );
+    assertEquals(
+      await totp.validate(await codeAt(1), {
+        ...options,
+        movingFactor: step * 30,
+      }),
+      false,
+    );
+  },
+});
+
+Deno.test({
+  name: "Profiles can not be modified",
+  fn(): void {
+    assert(Object.isFrozen(OtpProfiles));
+    assert(Object.isFrozen(OtpProfiles.rfcStrict));
+  },
+});
@@ -0,0 +1,512 @@
+import { decode } from "./deps.ts";
+import { Hotp } from "./hotp.ts";
+import { OtpAlgorithm } from "./otp.ts";
+import { Totp } from "./totp.ts";
+import { decodeBase64, encodeBase64, parseOtpAlgorithm } from "./util.ts";
+import { formatXml, localName, parseXml } from "./xml.ts";
+import type { XmlElement } from "./xml.ts";
+
+/** Key of a [PSKC](https://www.rfc-editor.org/rfc/rfc6030) container with the device it belongs to. */
+export interface PskcKey {
+  /** Serial number of the token, which is the key id if the container does not contain one. */
+  serialNumber: string;
+  /** Id of the key, defaults to the serial number on export. */
+  keyId?: string;
+  manufacturer?: string;
+  issuer?: string;
+  otp: Hotp | Totp;
+}
+
+export interface PskcOptions {
+  /** Pre-shared AES-128 or AES-256 key which decrypts the encrypted values of imported containers and encrypts the secrets of exported ones. */
+  preSharedKey?: Uint8Array;
+  /** Name of the pre-shared key in exported containers, defaults to "Pre-shared-key". */
+  keyName?: string;
+}
+
+const pskcNamespace = "urn:ietf:params:xml:ns:keyprov:pskc";
+const xmldsigNamespace = "http://www.w3.org/2000/09/xmldsig#";
+const xmlencNamespace = "http://www.w3.org/2001/04/xmlenc#";
+const keyAlgorithms = {
+  hotp: `${pskcNamespace}:hotp`,
+  totp: `${pskcNamespace}:totp`,
+};
+const macAlgorithms: Record<string, string> = {
+  [`${xmldsigNamespace}hmac-sha1`]: "SHA-1",
+  "http://www.w3.org/2001/04/xmldsig-more#hmac-sha256": "SHA-256",
+  "http://www.w3.org/2001/04/xmldsig-more#hmac-sha512": "SHA-512",
+};
+// Encryption algorithms and their key lengths in bytes
+const encryptionAlgorithms: Record<string, number> = {
+  [`${xmlencNamespace}aes128-cbc`]: 16,
+  [`${xmlencNamespace}aes256-cbc`]: 32,
+};
+const ivByteLength = 16;
+const macKeyByteLength = 20;
+
+interface MacKey {
+  key: Uint8Array;
+  hash: string;
+}
+
+interface Decryption {
+  preSharedKey?: Uint8Array;
+  macKey?: MacKey;
+}
+
+/**
+ * Reads the Hotp and Totp keys of a PSKC container delivered with hardware tokens, keyed by the serial number.
+ * Encrypted values are decrypted with the pre-shared key and their MAC is verified if the container has a MAC method.
+ * The Time element is used as t0 and the TimeDrift element as drift offset of Totp keys.
+ * @param xml
+ * @param options
+ * @throws SyntaxError if the XML is malformed.
+ * @throws TypeError if the container is invalid, uses unsupported algorithms or encodings, contains duplicated serial numbers or the pre-shared key is missing.
+ * @throws RangeError if the pre-shared key length is invalid or a parameter is out of range.
+ * @throws Error if the pre-shared key is wrong or a MAC does not match.
+ */
+export async function parsePskc(
+  xml: string,
+  options?: PskcOptions,
+): Promise<Map<string, PskcKey>> {
+  const root = parseXml(xml);
+  if (localName(root) !== "KeyContainer") {
+    throw new TypeError("The PSKC root element must be a KeyContainer.");
+  }
+  if (root.attributes.Version !== "1.0") {
+    throw new TypeError(
+      `The PSKC version "${root.attributes.Version}" is not supported.`,
+    );
+  }
+  const decryption: Decryption = { preSharedKey: options?.preSharedKey };
+  if (decryption.preSharedKey !== undefined) {
+    validatePreSharedKey(decryption.preSharedKey);
+  }
+  const macMethod = findChild(root, "MACMethod");
+  if (macMethod !== undefined) {
+    const hash = macAlgorithms[macMethod.attributes.Algorithm];
+    if (hash === undefined) {
+      throw new TypeError(
+        `The MAC algorithm "${macMethod.attributes.Algorithm}" is not supported.`,
+      );
+    }
+    const macKey = getChild(macMethod, "MACKey");
+    decryption.macKey = {
+      key: await decryptValue(macKey, decryption.preSharedKey),
+      hash,
+    };
+  }
+
+  const keys = new Map<string, PskcKey>();
+  for (const keyPackage of findChildren(root, "KeyPackage")) {
+    const key = await readKeyPackage(keyPackage, decryption);
+    if (keys.has(key.serialNumber)) {
+      throw new TypeError(
+        `The serial number "${key.serialNumber}" occurs more than once.`,
+      );
+    }
+    keys.set(key.serialNumber, key);
+  }
+  return keys;
+}
+
+/**
+ * Creates a PSKC container of the keys, e.g. to provision a validation server.
+ * With a pre-shared key the secrets are encrypted with AES-CBC and protected by an HMAC-SHA1 MAC.
+ * @param keys
+ * @param options
+ * @throws TypeError if a key does not use decimal codes.
+ * @throws RangeError if the pre-shared key length is invalid.
+ */
+export async function createPskc(
+  keys: PskcKey[],
+  options?: PskcOptions,
+): Promise<string> {
+  const preSharedKey = options?.preSharedKey;
+  const root: XmlElement = {
+    name: "KeyContainer",
+    attributes: { Version: "1.0", xmlns: pskcNamespace },
+    children: [],
+  };
+  let macKey: MacKey | undefined;
+  if (preSharedKey !== undefined) {
+    validatePreSharedKey(preSharedKey);
+    macKey = {
+      key: crypto.getRandomValues(new Uint8Array(macKeyByteLength)),
+      hash: "SHA-1",
+    };
+    root.attributes["xmlns:ds"] = xmldsigNamespace;
+    root.attributes["xmlns:xenc"] = xmlencNamespace;
+    root.children.push(
+      element("EncryptionKey", {}, [
+        element("ds:KeyName", {}, [options?.keyName ?? "Pre-shared-key"]),
+      ]),
+      element("MACMethod", { Algorithm: `${xmldsigNamespace}hmac-sha1` }, [
+        element(
+          "MACKey",
+          {},
+          (await encryptValue(macKey.key, preSharedKey)).encryptedValue
+            .children,
+        ),
+      ]),
+    );
+  }
+  for (const key of keys) {
+    root.children.push(await writeKeyPackage(key, preSharedKey, macKey));
+  }
+  return formatXml(root);
+}
+
+async function readKeyPackage(
+  keyPackage: XmlElement,
+  decryption: Decryption,
+): Promise<PskcKey> {
+  const key = getChild(keyPackage, "Key");
+  const keyId = key.attributes.Id;
+  if (keyId === undefined) {
+    throw new TypeError("A PSKC key is missing the Id attribute.");
+  }
+  const deviceInfo = findChild(keyPackage, "DeviceInfo");
+  const serialNumber = optionalText(deviceInfo, "SerialNo") ?? keyId;
+  const manufacturer = optionalText(deviceInfo, "Manufacturer");
+  const issuer = optionalText(key, "Issuer");
+
+  const parameters = getChild(key, "AlgorithmParameters");
+  const responseFormat = getChild(parameters, "ResponseFormat");
+  if ((responseFormat.attributes.Encoding ?? "DECIMAL") !== "DECIMAL") {
+    throw new TypeError(
+      `The response encoding "${responseFormat.attributes.Encoding}" of key "${keyId}" is not supported.`,
+    );
+  }
+  const digits = parseInteger(responseFormat.attributes.Length, "Length");
+  const algorithm = parseSuite(optionalText(parameters, "Suite"));
+
+  const data = getChild(key, "Data");
+  const secret = await readBinary(getChild(data, "Secret"), decryption);
+  const readOptionalInteger = async (name: string) => {
+    const value = findChild(data, name);
+    return value !== undefined
+      ? await readInteger(value, name, decryption)
+      : undefined;
+  };
+  let otp: Hotp | Totp;
+  switch (key.attributes.Algorithm) {
+    case keyAlgorithms.hotp:
+      otp = new Hotp(secret, {
+        algorithm,
+        digits,
+        counter: await readOptionalInteger("Counter"),
+      });
+      break;
+    case keyAlgorithms.totp:
+      otp = new Totp(secret, {
+        algorithm,
+        digits,
+        stepSize: await readOptionalInteger("TimeInterval"),
+        t0: await readOptionalInteger("Time"),
+        driftOffset: await readOptionalInteger("TimeDrift"),
+      });
+      break;
+    default:
+      throw new TypeError(
+        `The algorithm "${key.attributes.Algorithm}" of key "${keyId}" is not supported.`,
+      );
+  }
+  return { serialNumber, keyId, manufacturer, issuer, otp };
+}
+
+async function writeKeyPackage(
+  key: PskcKey,
+  preSharedKey?: Uint8Array,
+  macKey?: MacKey,
+): Promise<XmlElement> {
+  const { otp } = key;
+  const serialized = otp.toJSON();
+  if (serialized.codeEncoding !== undefined) {
+    throw new TypeError("PSKC keys must use decimal codes.");
+  }
+  const secret = decode(serialized.secret);
+  let secretChildren: XmlElement[];
+  if (preSharedKey !== undefined && macKey !== undefined) {
+    const { encryptedValue, cipherValue } = await encryptValue(
+      secret,
+      preSharedKey,
+    );
+    secretChildren = [
+      encryptedValue,
+      element("ValueMAC", {}, [
+        encodeBase64(
+          new Uint8Array(
+            await crypto.subtle.sign(
+              "HMAC",
+              await importHmacKey(macKey),
+              cipherValue,
+            ),
+          ),
+        ),
+      ]),
+    ];
+  } else {
+    secretChildren = [element("PlainValue", {}, [encodeBase64(secret)])];
+  }
+  const plainValue = (name: string, value: number) =>
+    element(name, {}, [element("PlainValue", {}, [String(value)])]);
+
+  const data = [element("Secret", {}, secretChildren)];
+  if (otp instanceof Hotp) {
+    data.push(plainValue("Counter", otp.counter));
+  } else {
+    data.push(
+      plainValue("Time", otp.t0),
+      plainValue("TimeInterval", otp.stepSize),
+    );
+    if (otp.driftOffset !== 0) {
+      data.push(plainValue("TimeDrift", otp.driftOffset));
+    }
+  }
+  return element("KeyPackage", {}, [
+    element("DeviceInfo", {}, [
+      ...(key.manufacturer !== undefined
+        ? [element("Manufacturer", {}, [key.manufacturer])]
+        : []),
+      element("SerialNo", {}, [key.serialNumber]),
+    ]),
+    element("Key", {
+      Id: key.keyId ?? key.serialNumber,
+      Algorithm: otp instanceof Hotp ? keyAlgorithms.hotp : keyAlgorithms.totp,
+    }, [
+      ...(key.issuer !== undefined
+        ? [element("Issuer", {}, [key.issuer])]
+        : []),
+      element("AlgorithmParameters", {}, [
+        ...(otp.algorithm !== OtpAlgorithm.SHA1
+          ? [element("Suite", {}, [`HMAC-${otp.algorithm.replace("-", "")}`])]
+          : []),
+        element("ResponseFormat", {
+          Length: String(otp.digits),
+          Encoding: "DECIMAL",
+        }, []),
+      ]),
+      element("Data", {}, data),
+    ]),
+  ]);
+}
+
+/**
+ * Reads the hash algorithm from a suite like HMAC-SHA256, defaulting to SHA-1 of RFC 4226.
+ * @param suite
+ */
+function parseSuite(suite?: string): OtpAlgorithm {
+  if (suite === undefined) return OtpAlgorithm.SHA1;
+  const algorithm = parseOtpAlgorithm(suite.toUpperCase().replace("HMAC-", ""));
+  if (algorithm === undefined) {
+    throw new TypeError(`The suite "${suite}" is not supported.`);
+  }
+  return algorithm;
+}
+
+const decryptionFailure =
+  "The pre-shared key is wrong or the MAC of the PSKC container does not match.";
+
+async function readBinary(
+  value: XmlElement,
+  decryption: Decryption,
+): Promise<Uint8Array> {
+  const plainValue = findChild(value, "PlainValue");
+  if (plainValue !== undefined) return decodeBase64(text(plainValue));
+  const encryptedValue = getChild(value, "EncryptedValue");
+  // Verify the MAC before decrypting, so padding errors can not be told apart from modified values
+  if (decryption.macKey !== undefined) {
+    const valueMac = findChild(value, "ValueMAC");
+    if (valueMac === undefined) {
+      throw new TypeError(`The encrypted ${localName(value)} has no MAC.`);
+    }
+    const cipherValue = decodeBase64(text(getCipherValue(encryptedValue)));
+    // The MAC is calculated over the IV and the ciphertext
+    if (
+      !await crypto.subtle.verify(
+        "HMAC",
+        await importHmacKey(decryption.macKey),
+        decodeBase64(text(valueMac)),
+        cipherValue,
+      )
+    ) {
+      throw new Error(decryptionFailure);
+    }
+  }
+  return await decryptValue(encryptedValue, decryption.preSharedKey);
+}
+
+/**
+ * Reads an integer which is encrypted as 8 byte big-endian number.
+ * @param value
+ * @param name
+ * @param decryption
+ */
+async function readInteger(
+  value: XmlElement,
+  name: string,
+  decryption: Decryption,
+): Promise<number> {
+  const plainValue = findChild(value, "PlainValue");
+  if (plainValue !== undefined) return parseInteger(text(plainValue), name);
+  const bytes = await readBinary(value, decryption);
+  if (bytes.length !== 8) {
+    throw new TypeError(`The encrypted ${name} must have 8 bytes.`);
+  }
+  const integer = new DataView(bytes.buffer, bytes.byteOffset).getBigInt64(0);
+  if (
+    integer > BigInt(Number.MAX_SAFE_INTEGER) ||
+    integer < BigInt(Number.MIN_SAFE_INTEGER)
+  ) {
+    throw new RangeError(`The ${name} exceeds the safe integer range.`);
+  }
+  return Number(integer);
+}
+
+function parseInteger(value: string | undefined, name: string): number {
+  if (value === undefined || !/^\s*-?\d+\s*$/.test(value)) {
+    throw new TypeError(`The ${name} "${value}" is not an integer.`);
+  }
+  return parseInt(value);
+}
+
+async function decryptValue(
+  encryptedValue: XmlElement,
+  preSharedKey?: Uint8Array,
+): Promise<Uint8Array> {
+  if (preSharedKey === undefined) {
+    throw new TypeError(
+      "The PSKC container is encrypted and requires a pre-shared key.",
+    );
+  }
+  const method = getChild(encryptedValue, "EncryptionMethod");
+  const keyLength = encryptionAlgorithms[method.attributes.Algorithm];
+  if (keyLength === undefined) {
+    throw new TypeError(
+      `The encryption algorithm "${method.attributes.Algorithm}" is not supported.`,
+    );
+  }
+  if (keyLength !== preSharedKey.length) {
+    throw new RangeError(
+      `The encryption algorithm "${method.attributes.Algorithm}" requires a key of ${keyLength} bytes.`,
+    );
+  }
+  const cipherValue = decodeBase64(text(getCipherValue(encryptedValue)));
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-CBC", iv: cipherValue.subarray(0, ivByteLength) },
+        await importAesKey(preSharedKey),
+        cipherValue.subarray(ivByteLength),
+      ),
+    );
+  } catch (_) {
+    throw new Error(decryptionFailure);
+  }
+}
+
+/**
+ * Encrypts the value with a random IV, which is prepended to the ciphertext like XML Encryption does.
+ * @param value
+ * @param preSharedKey
+ */
+async function encryptValue(
+  value: Uint8Array,
+  preSharedKey: Uint8Array,
+): Promise<{ encryptedValue: XmlElement; cipherValue: Uint8Array }> {
+  const iv = crypto.getRandomValues(new Uint8Array(ivByteLength));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-CBC", iv },
+      await importAesKey(preSharedKey),
+      value,
+    ),
+  );
+  const cipherValue = new Uint8Array(iv.length + ciphertext.length);
+  cipherValue.set(iv);
+  cipherValue.set(ciphertext, iv.length);
+  const algorithm = Object.keys(encryptionAlgorithms).find((algorithm) =>
+    encryptionAlgorithms[algorithm] === preSharedKey.length
+  )!;
+  return {
+    encryptedValue: element("EncryptedValue", {}, [
+      element("xenc:EncryptionMethod", { Algorithm: algorithm }, []),
+      element("xenc:CipherData", {}, [
+        element("xenc:CipherValue", {}, [encodeBase64(cipherValue)]),
+      ]),
+    ]),
+    cipherValue,
+  };
+}
+
+async function importHmacKey(macKey: MacKey): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    "raw",
+    macKey.key,
+    { name: "HMAC", hash: macKey.hash },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+async function importAesKey(key: Uint8Array): Promise<CryptoKey> {
+  return await crypto.subtle.importKey("raw", key, "AES-CBC", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+function validatePreSharedKey(preSharedKey: Uint8Array): void {
+  if (!Object.values(encryptionAlgorithms).includes(preSharedKey.length)) {
+    throw new RangeError("The pre-shared key must have 16 or 32 bytes.");
+  }
+}
+
+function element(
+  name: string,
+  attributes: Record<string, string>,
+  children: (XmlElement | string)[],
+): XmlElement {
+  return { name, attributes, children };
+}
+
+function getCipherValue(encryptedValue: XmlElement): XmlElement {
+  return getChild(getChild(encryptedValue, "CipherData"), "CipherValue");
+}
+
+function findChildren(parent: XmlElement, name: string): XmlElement[] {
+  return parent.children.filter((child): child is XmlElement =>
+    typeof child !== "string" && localName(child) === name
+  );
+}
+
+function findChild(
+  parent: XmlElement | undefined,
+  name: string,
+): XmlElement | undefined {
+  return parent !== undefined ? findChildren(parent, name)[0] : undefined;
+}
+
+function getChild(parent: XmlElement, name: string): XmlElement {
+  const child = findChild(parent, name);
+  if (child === undefined) {
+    throw new TypeError(
+      `The PSKC element ${parent.name} is missing the ${name} element.`,
+    );
+  }
+  return child;
+}
+
+function text(element: XmlElement): string {
+  return element.children.filter((child) => typeof child === "string").join("")
+    .trim();
+}
+
+function optionalText(
+  parent: XmlElement | undefined,
+  name: string,
+): string | undefined {
+  const child = findChild(parent, name);
+  return child !== undefined ? text(child) : undefined;
+}
@@ -0,0 +1,241 @@
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertStringIncludes,
+} from "./test_deps.ts";
+import { createPskc, parsePskc } from "./pskc.ts";
+import { CodeEncodings } from "./code_encoding.ts";
+import { Hotp } from "./hotp.ts";
+import { OtpAlgorithm } from "./otp.ts";
+import { Totp } from "./totp.ts";
+
+// Figure 2 of RFC 6030
+const plainContainer = `<?xml version="1.0" encoding="UTF-8"?>
+<KeyContainer Version="1.0"
+    Id="exampleID1"
+    xmlns="urn:ietf:params:xml:ns:keyprov:pskc">
+    <KeyPackage>
+        <DeviceInfo>
+            <Manufacturer>Manufacturer</Manufacturer>
+            <SerialNo>987654321</SerialNo>
+            <UserId>DC=example-bank,DC=net</UserId>
+        </DeviceInfo>
+        <CryptoModuleInfo>
+            <Id>CM_ID_001</Id>
+        </CryptoModuleInfo>
+        <Key Id="12345678"
+            Algorithm="urn:ietf:params:xml:ns:keyprov:pskc:hotp">
+            <Issuer>Issuer</Issuer>
+            <AlgorithmParameters>
+                <ResponseFormat Length="8" Encoding="DECIMAL"/>
+            </AlgorithmParameters>
+            <Data>
+                <Secret>
+                    <PlainValue>MTIzNDU2Nzg5MDEyMzQ1Njc4OTA=
+                    </PlainValue>
+                </Secret>
+                <Counter>
+                    <PlainValue>0</PlainValue>
+                </Counter>
+            </Data>
+            <UserId>UID=jsmith,DC=example-bank,DC=net</UserId>
+        </Key>
+    </KeyPackage>
+</KeyContainer>`;
+
+// Figure 6 of RFC 6030
+const encryptedContainer = `<?xml version="1.0" encoding="UTF-8"?>
+<KeyContainer Version="1.0"
+    xmlns="urn:ietf:params:xml:ns:keyprov:pskc"
+    xmlns:ds="http://www.w3.org/2000/09/xmldsig#"
+    xmlns:xenc="http://www.w3.org/2001/04/xmlenc#">
+    <EncryptionKey>
+        <ds:KeyName>Pre-shared-key</ds:KeyName>
+    </EncryptionKey>
+    <MACMethod Algorithm="http://www.w3.org/2000/09/xmldsig#hmac-sha1">
+        <MACKey>
+            <xenc:EncryptionMethod
+            Algorithm="http://www.w3.org/2001/04/xmlenc#aes128-cbc"/>
+            <xenc:CipherData>
+                <xenc:CipherValue>
+    ESIzRFVmd4iZABEiM0RVZgKn6WjLaTC1sbeBMSvIhRejN9vJa2BOlSaMrR7I5wSX
+                </xenc:CipherValue>
+            </xenc:CipherData>
+        </MACKey>
+    </MACMethod>
+    <KeyPackage>
+        <DeviceInfo>
+            <Manufacturer>Manufacturer</Manufacturer>
+            <SerialNo>987654321</SerialNo>
+        </DeviceInfo>
+        <CryptoModuleInfo>
+            <Id>CM_ID_001</Id>
+        </CryptoModuleInfo>
+        <Key Id="12345678"
+            Algorithm="urn:ietf:params:xml:ns:keyprov:pskc:hotp">
+            <Issuer>Issuer</Issuer>
+            <AlgorithmParameters>
+                <ResponseFormat Length="8" Encoding="DECIMAL"/>
+            </AlgorithmParameters>
+            <Data>
+                <Secret>
+                    <EncryptedValue>
+                        <xenc:EncryptionMethod
+            Algorithm="http://www.w3.org/2001/04/xmlenc#aes128-cbc"/>
+                        <xenc:CipherData>
+                            <xenc:CipherValue>
+    AAECAwQFBgcICQoLDA0OD+cIHItlB3Wra1DUpxVvOx2lef1VmNPCMl8jwZqIUqGv
+                            </xenc:CipherValue>
+                        </xenc:CipherData>
+                    </EncryptedValue>
+                    <ValueMAC>Su+NvtQfmvfJzF6bmQiJqoLRExc=
+                    </ValueMAC>
+                </Secret>
+                <Counter>
+                    <PlainValue>0</PlainValue>
+                </Counter>
+            </Data>
+        </Key>
+    </KeyPackage>
+</KeyContainer>`;
+
+const preSharedKey = Uint8Array.from(
+  "12345678901234567890123456789012".match(/../g)!,
+  (byte) => parseInt(byte, 16),
+);
+
+Deno.test({
+  name: "parsePskc() reads the plain container of RFC 6030",
+  async fn(): Promise<void> {
+    const keys = await parsePskc(plainContainer);
+    const key = keys.get("987654321")!;
+    assertEquals(key.keyId, "12345678");
+    assertEquals(key.manufacturer, "Manufacturer");
+    assertEquals(key.issuer, "Issuer");
+    assert(key.otp instanceof Hotp);
+    assertEquals(key.otp.digits, 8);
+    assertEquals(
+      await key.otp.generate({ formatCode: false, sideEffects: false }),
+      "84755224",
+    );
+  },
+});
+
+Deno.test({
+  name: "parsePskc() decrypts and verifies the container of RFC 6030",
+  async fn(): Promise<void> {
+    const key = (await parsePskc(encryptedContainer, { preSharedKey })).get(
+      "987654321",
+    )!;
+    assertEquals(key.otp.toJSON().secret, "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+
+    await assertRejects(() => parsePskc(encryptedContainer), TypeError);
+    await assertRejects(
+      () => parsePskc(encryptedContainer, { preSharedKey: new Uint8Array(16) }),
+      Error,
+      "pre-shared key is wrong or the MAC",
+    );
+    await assertRejects(
+      () =>
+        parsePskc(
+          encryptedContainer.replace(
+            "Su+NvtQfmvfJzF6bmQiJqoLRExc=",
+            "AAAAAAAAAAAAAAAAAAAAAAAAAAA=",
+          ),
+          { preSharedKey },
+        ),
+      Error,
+      // Same message as a wrong key, so decryption failures reveal nothing about the padding
+      "pre-shared key is wrong or the MAC",
+    );
+  },
+});
+
+Deno.test({
+  name: "createPskc() round trips plain and encrypted containers",
+  async fn(): Promise<void> {
+    const keys = [
+      {
+        serialNumber: "1",
+        manufacturer: "Example & Co",
+        otp: new Hotp("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ", { counter: 42 }),
+      },
+      {
+        serialNumber: "2",
+        keyId: "totp-2",
+        issuer: "Example",
+        otp: new Totp("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ", {
+          algorithm: OtpAlgorithm.SHA256,
+          digits: 8,
+          stepSize: 60,
+          t0: 100,
+          driftOffset: -1,
+        }),
+      },
+    ];
+    for (const options of [undefined, { preSharedKey }]) {
+      const xml = await createPskc(keys, options);
+      const parsed = await parsePskc(xml, options);
+      assertEquals([...parsed.keys()], ["1", "2"]);
+      assertEquals(parsed.get("1")!.manufacturer, "Example & Co");
+      assertEquals(parsed.get("1")!.keyId, "1");
+      assertEquals(parsed.get("2")!.keyId, "totp-2");
+      assertEquals(parsed.get("2")!.issuer, "Example");
+      assertEquals(
+        [...parsed.values()].map(({ otp }) => otp.toJSON()),
+        keys.map(({ otp }) => otp.toJSON()),
+      );
+    }
+    const encrypted = await createPskc(keys, { preSharedKey });
+    assertStringIncludes(encrypted, "<ValueMAC>");
+    assert(!encrypted.includes("<PlainValue>MTIz"));
+  },
+});
+
+Deno.test({
+  name: "Rejects invalid containers and keys",
+  async fn(): Promise<void> {
+    await assertRejects(
+      () => parsePskc(plainContainer + plainContainer),
+      SyntaxError,
+    );
+    const keyPackage = plainContainer.slice(
+      plainContainer.indexOf("<KeyPackage>"),
+      plainContainer.indexOf("</KeyContainer>"),
+    );
+    await assertRejects(
+      () =>
+        parsePskc(
+          plainContainer.replace(
+            "</KeyContainer>",
+            `${keyPackage}</KeyContainer>`,
+          ),
+        ),
+      TypeError,
+      "more than once",
+    );
+    await assertRejects(
+      () => parsePskc(plainContainer.replace(":hotp", ":ocra")),
+      TypeError,
+    );
+    await assertRejects(
+      () => parsePskc(plainContainer.replace("DECIMAL", "ALPHANUMERIC")),
+      TypeError,
+    );
+    await assertRejects(
+      () =>
+        createPskc([{
+          serialNumber: "1",
+          otp: new Totp("GEZDGNBVGY3TQOJQ", {
+            codeEncoding: CodeEncodings.Hexadecimal,
+          }),
+        }]),
+      TypeError,
+    );
+    await assertRejects(
+      () => createPskc([], { preSharedKey: new Uint8Array(8) }),
+      RangeError,
+    );
+  },
+});
@@ -0,0 +1,676 @@
+import type { KeyUriLabel } from "./key_uri.ts";
+import type { Otp } from "./otp.ts";
+
+/** Amount of data which can be restored if the QR code is damaged. L = 7%, M = 15%, Q = 25%, H = 30%. */
+export enum QrErrorCorrectionLevel {
+  L = "L",
+  M = "M",
+  Q = "Q",
+  H = "H",
+}
+
+export interface QrCodeOptions {
+  errorCorrectionLevel?: QrErrorCorrectionLevel;
+}
+
+export interface QrCodeImageOptions {
+  /** Amount of light modules around the code, the specification requires at least 4. */
+  quietZone?: number;
+  /** Size of a module in pixels. */
+  moduleSize?: number;
+}
+
+export interface QrCodeTerminalOptions {
+  /** Amount of light modules around the code, the specification requires at least 4. */
+  quietZone?: number;
+  /**
+   * By default light modules are printed as blocks, because most terminals use a dark background.
+   * Set to true to print dark modules as blocks on a light background.
+   */
+  invert?: boolean;
+}
+
+// Indexed by the format bits of the error correction level
+const errorCorrectionLevelBits: Record<QrErrorCorrectionLevel, number> = {
+  [QrErrorCorrectionLevel.L]: 1,
+  [QrErrorCorrectionLevel.M]: 0,
+  [QrErrorCorrectionLevel.Q]: 3,
+  [QrErrorCorrectionLevel.H]: 2,
+};
+
+// Error correction codewords per block for the versions 1 to 40, index 0 is unused
+const eccCodewordsPerBlock: Record<QrErrorCorrectionLevel, number[]> = {
+  // deno-fmt-ignore
+  [QrErrorCorrectionLevel.L]: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  // deno-fmt-ignore
+  [QrErrorCorrectionLevel.M]: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  // deno-fmt-ignore
+  [QrErrorCorrectionLevel.Q]: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  // deno-fmt-ignore
+  [QrErrorCorrectionLevel.H]: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+// Error correction blocks for the versions 1 to 40, index 0 is unused
+const eccBlocks: Record<QrErrorCorrectionLevel, number[]> = {
+  // deno-fmt-ignore
+  [QrErrorCorrectionLevel.L]: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  // deno-fmt-ignore
+  [QrErrorCorrectionLevel.M]: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  // deno-fmt-ignore
+  [QrErrorCorrectionLevel.Q]: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  // deno-fmt-ignore
+  [QrErrorCorrectionLevel.H]: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+/**
+ * Dependency-free QR code (ISO/IEC 18004) encoder which stores the data in byte mode.
+ * It is meant to render key URIs for the enrollment with authenticator apps.
+ */
+export class QrCode {
+  #version: number;
+  /** Version from 1 to 40 which determines the size of the code. */
+  public get version(): number {
+    return this.#version;
+  }
+
+  #errorCorrectionLevel: QrErrorCorrectionLevel;
+  public get errorCorrectionLevel(): QrErrorCorrectionLevel {
+    return this.#errorCorrectionLevel;
+  }
+
+  #mask = 0;
+  public get mask(): number {
+    return this.#mask;
+  }
+
+  /** Amount of modules per side without the quiet zone. */
+  public get size(): number {
+    return this.#version * 4 + 17;
+  }
+
+  #modules: boolean[][] = [];
+  #isFunctionModule: boolean[][] = [];
+
+  /**
+   * Encodes the data using the smallest version which fits the data with the requested error correction level.
+   * @param data Text which gets UTF-8 encoded or raw bytes.
+   * @param options Options to configure the error correction level, defaults to M.
+   * @throws RangeError if the data is too long to fit into a QR code.
+   */
+  constructor(data: string | Uint8Array, options?: QrCodeOptions) {
+    const bytes = typeof data === "string"
+      ? new TextEncoder().encode(data)
+      : data;
+    this.#errorCorrectionLevel = options?.errorCorrectionLevel ??
+      QrErrorCorrectionLevel.M;
+
+    let version = 1;
+    for (; version <= 40; version++) {
+      const usedBits = 4 + characterCountBits(version) + bytes.length * 8;
+      if (
+        usedBits <= dataCodewords(version, this.#errorCorrectionLevel) * 8
+      ) {
+        break;
+      }
+    }
+    if (version > 40) {
+      throw new RangeError(
+        `The data (${bytes.length} bytes) is too long for a QR code with the error correction level ${this.#errorCorrectionLevel}.`,
+      );
+    }
+    this.#version = version;
+
+    const size = this.size;
+    for (let y = 0; y < size; y++) {
+      this.#modules.push(new Array<boolean>(size).fill(false));
+      this.#isFunctionModule.push(new Array<boolean>(size).fill(false));
+    }
+    this.#drawFunctionPatterns();
+    this.#drawCodewords(this.#addErrorCorrection(this.#encodeData(bytes)));
+    this.#applyBestMask();
+  }
+
+  /**
+   * Encodes the key URI of the given Hotp or Totp instance.
+   * @param otp
+   * @param label Account name and optional issuer shown by the authenticator app.
+   * @param options
+   */
+  static fromOtp(
+    otp: Otp,
+    label: KeyUriLabel,
+    options?: QrCodeOptions,
+  ): QrCode {
+    return new QrCode(otp.toUri(label), options);
+  }
+
+  /**
+   * Returns true if the module at the given position is dark. The position (0, 0) is the top left corner.
+   * Positions outside of the code belong to the quiet zone and are light.
+   * @param x
+   * @param y
+   */
+  isDark(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.size && y < this.size &&
+      this.#modules[y][x];
+  }
+
+  /**
+   * Renders the code as SVG image which uses a single path for all dark modules.
+   * @param options Options to configure the quiet zone (default 4) and the module size (default 1).
+   */
+  toSvg(options?: QrCodeImageOptions): string {
+    const quietZone = options?.quietZone ?? 4;
+    const moduleSize = options?.moduleSize ?? 1;
+    const dimension = this.size + quietZone * 2;
+    const path: string[] = [];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.#modules[y][x]) {
+          path.push(`M${x + quietZone},${y + quietZone}h1v1h-1z`);
+        }
+      }
+    }
+    return `<svg xmlns="http://www.w3.org/2000/svg" version="1.1" viewBox="0 0 ${dimension} ${dimension}" width="${
+      dimension * moduleSize
+    }" height="${
+      dimension * moduleSize
+    }" shape-rendering="crispEdges"><rect width="100%" height="100%" fill="#ffffff"/><path d="${
+      path.join("")
+    }" fill="#000000"/></svg>`;
+  }
+
+  /**
+   * Renders the code as black and white PNG image.
+   * @param options Options to configure the quiet zone (default 4) and the module size in pixels (default 8).
+   */
+  toPng(options?: QrCodeImageOptions): Uint8Array {
+    const quietZone = options?.quietZone ?? 4;
+    const moduleSize = options?.moduleSize ?? 8;
+    const dimension = (this.size + quietZone * 2) * moduleSize;
+    // One filter byte followed by 1 bit per pixel
+    const rowLength = 1 + Math.ceil(dimension / 8);
+    const raw = new Uint8Array(rowLength * dimension);
+    for (let py = 0; py < dimension; py++) {
+      const y = Math.floor(py / moduleSize) - quietZone;
+      for (let px = 0; px < dimension; px++) {
+        const x = Math.floor(px / moduleSize) - quietZone;
+        // In grayscale a set bit is white
+        if (!this.isDark(x, y)) {
+          raw[py * rowLength + 1 + (px >>> 3)] |= 0x80 >>> (px & 7);
+        }
+      }
+    }
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, dimension);
+    headerView.setUint32(4, dimension);
+    // Bit depth 1, color type grayscale, deflate, no filter and no interlace
+    header.set([1, 0, 0, 0, 0], 8);
+
+    return concatBytes([
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk("IHDR", header),
+      pngChunk("IDAT", zlibStore(raw)),
+      pngChunk("IEND", new Uint8Array(0)),
+    ]);
+  }
+
+  /**
+   * Renders the code with Unicode half blocks, so every line of text contains two rows of modules.
+   * @param options Options to configure the quiet zone (default 4) and the inversion of the colors.
+   */
+  toTerminal(options?: QrCodeTerminalOptions): string {
+    const quietZone = options?.quietZone ?? 4;
+    const invert = options?.invert ?? false;
+    const blockAt = (x: number, y: number) =>
+      y < this.size + quietZone && this.isDark(x, y) === invert;
+    const lines: string[] = [];
+    for (let y = -quietZone; y < this.size + quietZone; y += 2) {
+      let line = "";
+      for (let x = -quietZone; x < this.size + quietZone; x++) {
+        const top = blockAt(x, y);
+        const bottom = blockAt(x, y + 1);
+        line += top ? (bottom ? "█" : "▀") : (bottom ? "▄" : " ");
+      }
+      lines.push(line);
+    }
+    return lines.join("\n");
+  }
+
+  #setFunctionModule(x: number, y: number, isDark: boolean) {
+    this.#modules[y][x] = isDark;
+    this.#isFunctionModule[y][x] = true;
+  }
+
+  #drawFunctionPatterns() {
+    const size = this.size;
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+      this.#setFunctionModule(6, i, i % 2 === 0);
+      this.#setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns including their separators
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x < 0 || y < 0 || x >= size || y >= size) continue;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          this.#setFunctionModule(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+
+    // Alignment patterns, skipping the ones overlapping with finder patterns
+    const positions = alignmentPatternPositions(this.#version);
+    const last = positions.length - 1;
+    for (let i = 0; i <= last; i++) {
+      for (let j = 0; j <= last; j++) {
+        if (
+          (i === 0 && j === 0) || (i === 0 && j === last) ||
+          (i === last && j === 0)
+        ) {
+          continue;
+        }
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.#setFunctionModule(
+              positions[i] + dx,
+              positions[j] + dy,
+              Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+            );
+          }
+        }
+      }
+    }
+
+    // Reserve the format information, it gets overwritten after choosing the mask
+    this.#drawFormatBits(0);
+    this.#drawVersionBits();
+  }
+
+  #drawFormatBits(mask: number) {
+    const size = this.size;
+    const data = (errorCorrectionLevelBits[this.#errorCorrectionLevel] << 3) |
+      mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    // First copy around the top left finder pattern
+    for (let i = 0; i <= 5; i++) this.#setFunctionModule(8, i, getBit(bits, i));
+    this.#setFunctionModule(8, 7, getBit(bits, 6));
+    this.#setFunctionModule(8, 8, getBit(bits, 7));
+    this.#setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.#setFunctionModule(14 - i, 8, getBit(bits, i));
+    }
+
+    // Second copy split between the top right and bottom left finder patterns
+    for (let i = 0; i < 8; i++) {
+      this.#setFunctionModule(size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.#setFunctionModule(8, size - 15 + i, getBit(bits, i));
+    }
+    // The dark module
+    this.#setFunctionModule(8, size - 8, true);
+  }
+
+  #drawVersionBits() {
+    if (this.#version < 7) return;
+    let remainder = this.#version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.#version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.#setFunctionModule(a, b, getBit(bits, i));
+      this.#setFunctionModule(b, a, getBit(bits, i));
+    }
+  }
+
+  /** Creates the data codewords including the mode, the length, the terminator and the padding. */
+  #encodeData(bytes: Uint8Array): number[] {
+    const capacity = dataCodewords(this.#version, this.#errorCorrectionLevel) *
+      8;
+    const bits: number[] = [];
+    const appendBits = (value: number, length: number) => {
+      for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    // Byte mode indicator
+    appendBits(0b0100, 4);
+    appendBits(bytes.length, characterCountBits(this.#version));
+    for (const byte of bytes) appendBits(byte, 8);
+    // Terminator of up to 4 zero bits and padding to a full byte
+    appendBits(0, Math.min(4, capacity - bits.length));
+    appendBits(0, (8 - bits.length % 8) % 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+      codewords.push(bits.slice(i, i + 8).reduce((a, b) => (a << 1) | b, 0));
+    }
+    for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+      codewords.push(pad);
+    }
+    return codewords;
+  }
+
+  /** Splits the data into blocks, appends the Reed-Solomon error correction and interleaves the blocks. */
+  #addErrorCorrection(data: number[]): number[] {
+    const numBlocks = eccBlocks[this.#errorCorrectionLevel][this.#version];
+    const blockEccLength =
+      eccCodewordsPerBlock[this.#errorCorrectionLevel][this.#version];
+    const rawCodewords = Math.floor(rawDataModules(this.#version) / 8);
+    const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+    const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+    const divisor = reedSolomonDivisor(blockEccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, offset = 0; i < numBlocks; i++) {
+      const blockData = data.slice(
+        offset,
+        offset + shortBlockLength - blockEccLength +
+          (i < numShortBlocks ? 0 : 1),
+      );
+      offset += blockData.length;
+      const ecc = reedSolomonRemainder(blockData, divisor);
+      // Placeholder which is skipped while interleaving
+      if (i < numShortBlocks) blockData.push(0);
+      blocks.push([...blockData, ...ecc]);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+      for (let j = 0; j < blocks.length; j++) {
+        if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+          result.push(blocks[j][i]);
+        }
+      }
+    }
+    return result;
+  }
+
+  /** Places the codewords in the zigzag pattern from the bottom right corner. */
+  #drawCodewords(codewords: number[]) {
+    const size = this.size;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      // Skip the vertical timing pattern
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vertical : vertical;
+          if (!this.#isFunctionModule[y][x] && i < codewords.length * 8) {
+            this.#modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  #applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.#isFunctionModule[y][x] && maskApplies(mask, x, y)) {
+          this.#modules[y][x] = !this.#modules[y][x];
+        }
+      }
+    }
+  }
+
+  #applyBestMask() {
+    let lowestPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+      this.#applyMask(mask);
+      this.#drawFormatBits(mask);
+      const penalty = this.#penaltyScore();
+      if (penalty < lowestPenalty) {
+        this.#mask = mask;
+        lowestPenalty = penalty;
+      }
+      // Masks are XOR based, so applying it again removes it
+      this.#applyMask(mask);
+    }
+    this.#applyMask(this.#mask);
+    this.#drawFormatBits(this.#mask);
+  }
+
+  /** Calculates the penalty of the current modules with the four rules of the specification. */
+  #penaltyScore(): number {
+    const size = this.size;
+    let penalty = 0;
+    const lines: boolean[][] = [...this.#modules];
+    for (let x = 0; x < size; x++) {
+      lines.push(this.#modules.map((row) => row[x]));
+    }
+
+    for (const line of lines) {
+      // Runs of five or more modules of the same color
+      let runLength = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          runLength++;
+        } else {
+          if (runLength >= 5) penalty += 3 + runLength - 5;
+          runLength = 1;
+        }
+      }
+      // Patterns looking like a finder pattern with four light modules on one side
+      const pattern = line.map((dark) => dark ? "1" : "0").join("");
+      for (
+        let index = pattern.indexOf("1011101");
+        index !== -1;
+        index = pattern.indexOf("1011101", index + 1)
+      ) {
+        if (
+          pattern.slice(Math.max(0, index - 4), index) === "0000" ||
+          pattern.slice(index + 7, index + 11) === "0000"
+        ) {
+          penalty += 40;
+        }
+      }
+    }
+
+    let darkModules = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const dark = this.#modules[y][x];
+        if (dark) darkModules++;
+        // Blocks of 2x2 modules of the same color
+        if (
+          x < size - 1 && y < size - 1 &&
+          dark === this.#modules[y][x + 1] &&
+          dark === this.#modules[y + 1][x] &&
+          dark === this.#modules[y + 1][x + 1]
+        ) {
+          penalty += 3;
+        }
+      }
+    }
+
+    // Deviation of the proportion of dark modules from 50% in steps of 5%
+    const total = size * size;
+    const deviation =
+      Math.ceil(Math.abs(darkModules * 20 - total * 10) / total) -
+      1;
+    penalty += Math.max(0, deviation) * 10;
+    return penalty;
+  }
+}
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function characterCountBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+/** Amount of modules available for data and error correction codewords. */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(
+  version: number,
+  errorCorrectionLevel: QrErrorCorrectionLevel,
+): number {
+  return Math.floor(rawDataModules(version) / 8) -
+    eccCodewordsPerBlock[errorCorrectionLevel][version] *
+      eccBlocks[errorCorrectionLevel][version];
+}
+
+function alignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor(
+    (version * 8 + numAlign * 3 + 5) /
+      (numAlign * 4 - 4),
+  ) * 2;
+  const positions = [6];
+  for (
+    let position = version * 4 + 10;
+    positions.length < numAlign;
+    position -= step
+  ) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return (x * y) % 2 + (x * y) % 3 === 0;
+    case 6:
+      return ((x * y) % 2 + (x * y) % 3) % 2 === 0;
+    default:
+      return ((x + y) % 2 + (x * y) % 3) % 2 === 0;
+  }
+}
+
+/** Multiplies two elements of GF(2^8) modulo the polynomial 0x11d. */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) =>
+      result[i] ^= gfMultiply(coefficient, factor)
+    );
+  }
+  return result;
+}
+
+function concatBytes(arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    arrays.reduce((length, array) => length + array.length, 0),
+  );
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+/** Wraps the data in a zlib stream of uncompressed deflate blocks, which is sufficient for 1 bit images. */
+function zlibStore(data: Uint8Array): Uint8Array {
+  const maxBlockLength = 0xffff;
+  const blockCount = Math.max(1, Math.ceil(data.length / maxBlockLength));
+  const result = new Uint8Array(2 + blockCount * 5 + data.length + 4);
+  const view = new DataView(result.buffer);
+  // Deflate with a 32K window and no preset dictionary
+  result.set([0x78, 0x01]);
+  let offset = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const block = data.subarray(
+      i * maxBlockLength,
+      (i + 1) * maxBlockLength,
+    );
+    result[offset] = i === blockCount - 1 ? 1 : 0;
+    view.setUint16(offset + 1, block.length, true);
+    view.setUint16(offset + 3, ~block.length & 0xffff, true);
+    result.set(block, offset + 5);
+    offset += 5 + block.length;
+  }
+  // Adler-32 checksum of the uncompressed data
+  let a = 1;
+  let b = 0;
+  for (const byte of data) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  view.setUint32(offset, ((b << 16) | a) >>> 0);
+  return result;
+}
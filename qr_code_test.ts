@@ -0,0 +1,166 @@
+import { assert, assertEquals, assertThrows } from "./test_deps.ts";
+import { QrCode, QrErrorCorrectionLevel } from "./qr_code.ts";
+import { Totp } from "./totp.ts";
+
+const keyUri =
+  "otpauth://totp/ACME%20Co:john%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=ACME%20Co&algorithm=SHA1&digits=6&period=30";
+
+Deno.test({
+  name: "QrCode uses the smallest version fitting the data",
+  fn(): void {
+    const qrCode = new QrCode("hello");
+    assertEquals(qrCode.version, 1);
+    assertEquals(qrCode.size, 21);
+    assertEquals(qrCode.errorCorrectionLevel, QrErrorCorrectionLevel.M);
+
+    // Version 1 holds 17 bytes with L and 7 bytes with H
+    assertEquals(
+      new QrCode("x".repeat(17), {
+        errorCorrectionLevel: QrErrorCorrectionLevel.L,
+      }).version,
+      1,
+    );
+    assertEquals(
+      new QrCode("x".repeat(8), {
+        errorCorrectionLevel: QrErrorCorrectionLevel.H,
+      }).version,
+      2,
+    );
+    // Version 40 holds 2953 bytes with L
+    assertEquals(
+      new QrCode("x".repeat(2953), {
+        errorCorrectionLevel: QrErrorCorrectionLevel.L,
+      }).version,
+      40,
+    );
+    assertThrows(
+      () =>
+        new QrCode("x".repeat(2954), {
+          errorCorrectionLevel: QrErrorCorrectionLevel.L,
+        }),
+      RangeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "QrCode draws finder patterns, timing patterns and the dark module",
+  fn(): void {
+    const qrCode = new QrCode(keyUri);
+    const size = qrCode.size;
+    for (const [x, y] of [[0, 0], [size - 7, 0], [0, size - 7]]) {
+      // Dark outer ring, light ring and dark 3x3 center
+      assert(qrCode.isDark(x, y));
+      assert(qrCode.isDark(x + 6, y + 6));
+      assert(!qrCode.isDark(x + 1, y + 1));
+      assert(qrCode.isDark(x + 3, y + 3));
+    }
+    for (let i = 8; i < size - 8; i++) {
+      assertEquals(qrCode.isDark(6, i), i % 2 === 0);
+      assertEquals(qrCode.isDark(i, 6), i % 2 === 0);
+    }
+    assert(qrCode.isDark(8, size - 8));
+    // The quiet zone is light
+    assert(!qrCode.isDark(-1, 0));
+    assert(!qrCode.isDark(size, 0));
+  },
+});
+
+Deno.test({
+  name: "QrCode encodes the format information of the error correction level",
+  fn(): void {
+    // Format information of the level H for the masks 0 to 7 from the specification
+    const formatInformation = [
+      "001011010001001",
+      "001001110111110",
+      "001110011100111",
+      "001100111010000",
+      "000011101100010",
+      "000001001010101",
+      "000110100001100",
+      "000100000111011",
+    ];
+    const qrCode = new QrCode("hello", {
+      errorCorrectionLevel: QrErrorCorrectionLevel.H,
+    });
+    // Least significant bit first around the top left finder pattern
+    const positions = [
+      ...[0, 1, 2, 3, 4, 5, 7, 8].map((y) => [8, y]),
+      [7, 8],
+      ...[5, 4, 3, 2, 1, 0].map((x) => [x, 8]),
+    ];
+    assertEquals(
+      positions.map(([x, y]) => qrCode.isDark(x, y) ? "1" : "0").reverse()
+        .join(""),
+      formatInformation[qrCode.mask],
+    );
+  },
+});
+
+Deno.test({
+  name: "QrCode.fromOtp encodes the key URI of the instance",
+  fn(): void {
+    const totp = new Totp("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    const label = { issuer: "ACME Co", accountName: "john@example.com" };
+    assertEquals(
+      QrCode.fromOtp(totp, label).toSvg(),
+      new QrCode(keyUri).toSvg(),
+    );
+  },
+});
+
+Deno.test({
+  name: "toSvg() renders every dark module with the quiet zone",
+  fn(): void {
+    const qrCode = new QrCode("hello");
+    const svg = qrCode.toSvg({ quietZone: 2, moduleSize: 10 });
+    assert(svg.startsWith("<svg"));
+    assert(svg.includes('viewBox="0 0 25 25"'));
+    assert(svg.includes('width="250"'));
+    let darkModules = 0;
+    for (let y = 0; y < qrCode.size; y++) {
+      for (let x = 0; x < qrCode.size; x++) {
+        if (qrCode.isDark(x, y)) darkModules++;
+      }
+    }
+    assertEquals(svg.split("h1v1h-1z").length - 1, darkModules);
+    assert(svg.includes("M2,2h1v1h-1z"));
+  },
+});
+
+Deno.test({
+  name: "toPng() renders a valid PNG image",
+  fn(): void {
+    const png = new QrCode("hello").toPng({ quietZone: 4, moduleSize: 2 });
+    assertEquals(
+      png.slice(0, 8),
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    );
+    const view = new DataView(png.buffer);
+    assertEquals(new TextDecoder().decode(png.slice(12, 16)), "IHDR");
+    // (21 + 2 * 4) * 2 pixels
+    assertEquals(view.getUint32(16), 58);
+    assertEquals(view.getUint32(20), 58);
+    assertEquals(
+      new TextDecoder().decode(png.slice(png.length - 8, png.length - 4)),
+      "IEND",
+    );
+  },
+});
+
+Deno.test({
+  name: "toTerminal() renders two rows per line",
+  fn(): void {
+    const qrCode = new QrCode("hello");
+    const lines = qrCode.toTerminal({ quietZone: 1 }).split("\n");
+    assertEquals(lines.length, 12);
+    assert(lines.every((line) => [...line].length === 23));
+    // The quiet zone is printed as blocks by default
+    assertEquals(lines[0].slice(0, 2), "█▀");
+    assertEquals(
+      qrCode.toTerminal({ quietZone: 1, invert: true }).split("\n")[0]
+        .slice(0, 2),
+      " ▄",
+    );
+  },
+});
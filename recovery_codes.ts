@@ -0,0 +1,252 @@
+import { decode, encode } from "./deps.ts";
+import { validateCodeEncoding } from "./code_encoding.ts";
+import { Otp, systemClock } from "./otp.ts";
+import type { Clock } from "./otp.ts";
+import type { ThrottlePolicy } from "./throttle.ts";
+import { cleanUserInputFormat, timingSafeEqual } from "./util.ts";
+
+export interface RecoveryCodesValidationOptions {
+  /** Policy limiting the amount of failed validations, which each hash the code once per remaining code. */
+  throttlePolicy?: ThrottlePolicy;
+  /** Source of the current time used by the throttle policy, defaults to the system time. */
+  clock?: Clock;
+}
+
+export interface RecoveryCodesOptions extends RecoveryCodesValidationOptions {
+  /** Amount of generated codes, defaults to 10. */
+  count?: number;
+  /** Characters per code, defaults to 10. */
+  length?: number;
+  /** Characters of the codes, defaults to upper case letters and digits without the ambiguous 0, 1, I and O. */
+  alphabet?: string;
+  /** Grouping of the formatted codes like Otp.formatCode, defaults to groups of 3 or 4 characters. */
+  grouping?: number;
+  /** PBKDF2 iterations used to hash the codes between 1 and 10000000, defaults to 100000. */
+  iterations?: number;
+}
+
+/** Salted hash of a recovery code which can be stored instead of the code. */
+export interface RecoveryCodeHash {
+  /** Base32 encoded salt. */
+  salt: string;
+  /** Base32 encoded PBKDF2-SHA-256 hash of the code without spaces in upper case. */
+  hash: string;
+  iterations: number;
+}
+
+const defaultAlphabet = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const saltByteLength = 16;
+const hashByteLength = 32;
+const maxIterations = 10000000;
+
+/**
+ * Single-use recovery codes of which only salted hashes are kept.
+ * The codes are shown once after generate and every code is consumed by a successful validation.
+ */
+export class RecoveryCodes {
+  #hashes: RecoveryCodeHash[];
+  /** Hashes of the remaining codes which should be persisted after every validation. */
+  public get hashes(): RecoveryCodeHash[] {
+    return this.#hashes.map((hash) => ({ ...hash }));
+  }
+
+  /** Amount of codes which were not used yet. */
+  public get remaining(): number {
+    return this.#hashes.length;
+  }
+
+  #throttlePolicy?: ThrottlePolicy;
+  #clock = systemClock;
+
+  #failedAttempts = 0;
+  /** Consecutive failed validations counted by the throttle policy. */
+  public get failedAttempts(): number {
+    return this.#failedAttempts;
+  }
+
+  #blockedUntil?: number;
+  /** Time in milliseconds since the Unix epoch until validation is delayed by the throttle policy. */
+  public get blockedUntil(): number | undefined {
+    return this.#blockedUntil;
+  }
+
+  /** True if the throttle policy locked validation until unlock is called. */
+  public get locked(): boolean {
+    return this.#throttlePolicy?.isLocked(this.#failedAttempts) ?? false;
+  }
+
+  #queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param hashes Stored hashes of the remaining codes.
+   * @param options
+   * @throws RangeError if the iterations of a hash are not an integer between 1 and 10000000.
+   */
+  constructor(
+    hashes: RecoveryCodeHash[],
+    options?: RecoveryCodesValidationOptions,
+  ) {
+    for (const { iterations } of hashes) validateIterations(iterations);
+    this.#hashes = hashes.map((hash) => ({ ...hash }));
+    this.#throttlePolicy = options?.throttlePolicy;
+    if (options?.clock !== undefined) this.#clock = options.clock;
+  }
+
+  /**
+   * Generates random codes and their hashes.
+   * The returned codes have to be shown to the user and must not be stored.
+   * @param options
+   * @throws RangeError if the count or length are not positive integers or the iterations are not an integer between 1 and 10000000.
+   * @throws TypeError if the alphabet is invalid or has more than 256 characters.
+   */
+  static async generate(
+    options?: RecoveryCodesOptions,
+  ): Promise<{ codes: string[]; recoveryCodes: RecoveryCodes }> {
+    const count = options?.count ?? 10;
+    const length = options?.length ?? 10;
+    const iterations = options?.iterations ?? 100000;
+    const alphabet = [...(options?.alphabet ?? defaultAlphabet).toUpperCase()];
+    for (const [name, value] of Object.entries({ count, length })) {
+      if (!Number.isSafeInteger(value) || value < 1) {
+        throw new RangeError(`The ${name} must be a positive integer.`);
+      }
+    }
+    validateIterations(iterations);
+    validateCodeEncoding({ alphabet: alphabet.join("") });
+    if (alphabet.length > 256) {
+      throw new TypeError("The alphabet must not exceed 256 characters.");
+    }
+
+    const codes: string[] = [];
+    const hashes: RecoveryCodeHash[] = [];
+    for (let index = 0; index < count; index++) {
+      const code = randomCode(alphabet, length);
+      const salt = crypto.getRandomValues(new Uint8Array(saltByteLength));
+      codes.push(
+        Otp.formatCode(code, length, { grouping: options?.grouping }),
+      );
+      hashes.push({
+        salt: encode(salt),
+        hash: encode(await hashCode(code, salt, iterations)),
+        iterations,
+      });
+    }
+    return { codes, recoveryCodes: new RecoveryCodes(hashes, options) };
+  }
+
+  /**
+   * Validates the code, ignoring spaces and case, and consumes it on success.
+   * Every stored hash is compared in constant time, so the time does not reveal which or how many codes match.
+   * Concurrent validations are run one after another, so a code can only be used once.
+   * Every validation hashes the code once per remaining code, so failures should be limited by a throttle policy.
+   * While the throttle policy locks or delays validation, false is returned without hashing the code.
+   * @param code
+   */
+  validate(code: string): Promise<boolean> {
+    const result = this.#queue.then(async () => {
+      if (this.#isThrottled()) return false;
+      const cleanedCode = cleanUserInputFormat(code);
+      let matchedIndex = -1;
+      for (let index = 0; index < this.#hashes.length; index++) {
+        const { salt, hash, iterations } = this.#hashes[index];
+        const matches = timingSafeEqual(
+          await hashCode(cleanedCode, decode(salt), iterations),
+          decode(hash),
+        );
+        if (matches && matchedIndex === -1) matchedIndex = index;
+      }
+      this.#countAttempt(matchedIndex !== -1);
+      if (matchedIndex === -1) return false;
+      this.#hashes.splice(matchedIndex, 1);
+      return true;
+    });
+    this.#queue = result.catch(() => {});
+    return result;
+  }
+
+  /** Resets the failed attempts counted by the throttle policy, which unlocks validation. */
+  unlock(): void {
+    this.#failedAttempts = 0;
+    this.#blockedUntil = undefined;
+  }
+
+  /** Checks if the throttle policy locks or delays validation. */
+  #isThrottled(): boolean {
+    if (this.#throttlePolicy === undefined) return false;
+    return this.#throttlePolicy.isLocked(this.#failedAttempts) ||
+      (this.#blockedUntil !== undefined &&
+        this.#clock.now() < this.#blockedUntil);
+  }
+
+  /**
+   * Resets the failed attempts if the validation succeeded and counts them otherwise.
+   * @param valid
+   */
+  #countAttempt(valid: boolean) {
+    const throttlePolicy = this.#throttlePolicy;
+    if (throttlePolicy === undefined) return;
+    if (valid) {
+      this.#failedAttempts = 0;
+      this.#blockedUntil = undefined;
+    } else {
+      this.#failedAttempts++;
+      const delay = throttlePolicy.delay(this.#failedAttempts);
+      this.#blockedUntil = delay > 0 ? this.#clock.now() + delay : undefined;
+    }
+  }
+}
+
+/**
+ * Limits the iterations, so stored hashes can not make validation run for hours.
+ * @param iterations
+ * @throws RangeError if the iterations are not an integer between 1 and 10000000.
+ */
+function validateIterations(iterations: number): void {
+  if (
+    !Number.isSafeInteger(iterations) || iterations < 1 ||
+    iterations > maxIterations
+  ) {
+    throw new RangeError(
+      `The iterations must be an integer between 1 and ${maxIterations}.`,
+    );
+  }
+}
+
+/**
+ * Draws characters uniformly from the alphabet by rejecting random bytes which would bias the modulo.
+ * @param alphabet
+ * @param length
+ */
+function randomCode(alphabet: string[], length: number): string {
+  const limit = 256 - (256 % alphabet.length);
+  const characters: string[] = [];
+  while (characters.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      if (byte < limit && characters.length < length) {
+        characters.push(alphabet[byte % alphabet.length]);
+      }
+    }
+  }
+  return characters.join("");
+}
+
+async function hashCode(
+  code: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(code),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  return new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+      key,
+      hashByteLength * 8,
+    ),
+  );
+}
@@ -0,0 +1,156 @@
+import {
+  assert,
+  assertEquals,
+  assertFalse,
+  assertMatch,
+  assertNotEquals,
+  assertRejects,
+  assertThrows,
+} from "./test_deps.ts";
+import { RecoveryCodes } from "./recovery_codes.ts";
+import { ThrottlePolicy } from "./throttle.ts";
+
+// Few iterations keep the tests fast
+const iterations = 1000;
+
+Deno.test({
+  name: "generate() creates formatted codes and stores only hashes",
+  async fn(): Promise<void> {
+    const { codes, recoveryCodes } = await RecoveryCodes.generate({
+      iterations,
+    });
+    assertEquals(codes.length, 10);
+    assertEquals(new Set(codes).size, 10);
+    for (const code of codes) {
+      assertMatch(
+        code,
+        /^[2-9A-HJ-NP-Z]{4} [2-9A-HJ-NP-Z]{4} [2-9A-HJ-NP-Z]{2}$/,
+      );
+    }
+    assertEquals(recoveryCodes.remaining, 10);
+    const serialized = JSON.stringify(recoveryCodes.hashes);
+    for (const code of codes) {
+      assertFalse(serialized.includes(code.replaceAll(" ", "")));
+    }
+    const [first, second] = recoveryCodes.hashes;
+    assertNotEquals(first.salt, second.salt);
+    assertEquals(first.iterations, iterations);
+  },
+});
+
+Deno.test({
+  name: "generate() uses the configured count, length, alphabet and grouping",
+  async fn(): Promise<void> {
+    const { codes } = await RecoveryCodes.generate({
+      count: 3,
+      length: 8,
+      alphabet: "ab",
+      grouping: 2,
+      iterations,
+    });
+    assertEquals(codes.length, 3);
+    for (const code of codes) assertMatch(code, /^([AB]{2} ){3}[AB]{2}$/);
+
+    for (
+      const options of [
+        { count: 0 },
+        { length: -1 },
+        { iterations: 0.5 },
+        { iterations: 10000001 },
+      ]
+    ) {
+      await assertRejects(() => RecoveryCodes.generate(options), RangeError);
+    }
+    await assertRejects(
+      () => RecoveryCodes.generate({ alphabet: "aA" }),
+      TypeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "validate() consumes every code once",
+  async fn(): Promise<void> {
+    const { codes, recoveryCodes } = await RecoveryCodes.generate({
+      count: 3,
+      iterations,
+    });
+    assertFalse(await recoveryCodes.validate("AAAA AAAA AA"));
+    assert(await recoveryCodes.validate(codes[1].toLowerCase()));
+    assertEquals(recoveryCodes.remaining, 2);
+    assertFalse(await recoveryCodes.validate(codes[1]));
+
+    // The stored hashes can be restored
+    const restored = new RecoveryCodes(recoveryCodes.hashes);
+    assert(await restored.validate(codes[0].replaceAll(" ", "")));
+    assert(await restored.validate(codes[2]));
+    assertEquals(restored.remaining, 0);
+    assertEquals(recoveryCodes.remaining, 2);
+  },
+});
+
+Deno.test({
+  name: "Concurrent validate() calls accept a code only once",
+  async fn(): Promise<void> {
+    const { codes, recoveryCodes } = await RecoveryCodes.generate({
+      count: 2,
+      iterations,
+    });
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => recoveryCodes.validate(codes[0])),
+    );
+    assertEquals(results.filter((valid) => valid).length, 1);
+    assertEquals(recoveryCodes.remaining, 1);
+  },
+});
+
+Deno.test({
+  name: "Stored hashes with out of range iterations are rejected",
+  async fn(): Promise<void> {
+    const { recoveryCodes } = await RecoveryCodes.generate({
+      count: 1,
+      iterations,
+    });
+    const [hash] = recoveryCodes.hashes;
+    for (const iterations of [0, 1.5, 1e9]) {
+      assertThrows(
+        () => new RecoveryCodes([{ ...hash, iterations }]),
+        RangeError,
+        "iterations",
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "validate() is throttled by the throttle policy",
+  async fn(): Promise<void> {
+    let now = 0;
+    const { codes, recoveryCodes } = await RecoveryCodes.generate({
+      count: 2,
+      iterations,
+      throttlePolicy: new ThrottlePolicy({
+        maxFailures: 3,
+        freeFailures: 1,
+        initialDelay: 1000,
+      }),
+      clock: { now: () => now },
+    });
+    assertFalse(await recoveryCodes.validate("AAAA AAAA AA"));
+    assertFalse(await recoveryCodes.validate("AAAA AAAA AA"));
+    assertEquals(recoveryCodes.blockedUntil, 1000);
+    // Delayed validations are rejected without consuming the code
+    assertFalse(await recoveryCodes.validate(codes[0]));
+    assertEquals(recoveryCodes.remaining, 2);
+
+    now = 1000;
+    assertFalse(await recoveryCodes.validate("AAAA AAAA AA"));
+    assert(recoveryCodes.locked);
+    now = 100000;
+    assertFalse(await recoveryCodes.validate(codes[0]));
+
+    recoveryCodes.unlock();
+    assert(await recoveryCodes.validate(codes[0]));
+    assertEquals(recoveryCodes.failedAttempts, 0);
+  },
+});
@@ -0,0 +1,144 @@
+export interface ScryptParameters {
+  /** CPU and memory cost, a power of two greater than 1. */
+  n: number;
+  /** Block size. */
+  r: number;
+  /** Parallelization. */
+  p: number;
+}
+
+/**
+ * Derives a key from the password with [scrypt](https://www.rfc-editor.org/rfc/rfc7914), which WebCrypto does not provide.
+ * Memory of 128 * n * r bytes is allocated, e.g. 32 MiB for n = 2^15 and r = 8.
+ * @param password
+ * @param salt
+ * @param parameters
+ * @param keyLength Length of the derived key in bytes.
+ * @throws RangeError if n is not a power of two greater than 1 or r, p or keyLength are not positive integers.
+ */
+export async function scrypt(
+  password: Uint8Array,
+  salt: Uint8Array,
+  { n, r, p }: ScryptParameters,
+  keyLength: number,
+): Promise<Uint8Array> {
+  if (!Number.isSafeInteger(n) || n < 2 || (n & (n - 1)) !== 0) {
+    throw new RangeError("The scrypt cost n must be a power of two.");
+  }
+  for (const [name, value] of Object.entries({ r, p, keyLength })) {
+    if (!Number.isSafeInteger(value) || value < 1) {
+      throw new RangeError(`The scrypt ${name} must be a positive integer.`);
+    }
+  }
+  const blockWords = 32 * r;
+  const blocks = new Uint32Array(
+    (await pbkdf2(password, salt, p * blockWords * 4)).buffer,
+  );
+  const scratch = new Uint32Array(blockWords * n);
+  for (let index = 0; index < p; index++) {
+    romix(
+      blocks.subarray(index * blockWords, (index + 1) * blockWords),
+      scratch,
+      n,
+      r,
+    );
+  }
+  return await pbkdf2(password, new Uint8Array(blocks.buffer), keyLength);
+}
+
+async function pbkdf2(
+  password: Uint8Array,
+  salt: Uint8Array,
+  length: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    password,
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  return new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations: 1 },
+      key,
+      length * 8,
+    ),
+  );
+}
+
+// The words are used in the platform byte order, which matches the little endian words of scrypt on all supported platforms
+function romix(
+  block: Uint32Array,
+  scratch: Uint32Array,
+  n: number,
+  r: number,
+): void {
+  const blockWords = 32 * r;
+  const temporary = new Uint32Array(blockWords);
+  for (let index = 0; index < n; index++) {
+    scratch.set(block, index * blockWords);
+    blockMix(block, temporary, r);
+  }
+  for (let index = 0; index < n; index++) {
+    const offset = (block[blockWords - 16] & (n - 1)) * blockWords;
+    for (let word = 0; word < blockWords; word++) {
+      block[word] ^= scratch[offset + word];
+    }
+    blockMix(block, temporary, r);
+  }
+}
+
+function blockMix(block: Uint32Array, temporary: Uint32Array, r: number): void {
+  const x = block.slice(32 * r - 16);
+  for (let index = 0; index < 2 * r; index++) {
+    for (let word = 0; word < 16; word++) {
+      x[word] ^= block[index * 16 + word];
+    }
+    salsa20_8(x);
+    // Even blocks go to the first half and odd blocks to the second half
+    temporary.set(x, ((index >> 1) + (index & 1) * r) * 16);
+  }
+  block.set(temporary);
+}
+
+function salsa20_8(b: Uint32Array): void {
+  const x = b.slice();
+  const rotate = (value: number, bits: number) =>
+    (value << bits) | (value >>> (32 - bits));
+  for (let round = 0; round < 8; round += 2) {
+    x[4] ^= rotate(x[0] + x[12], 7);
+    x[8] ^= rotate(x[4] + x[0], 9);
+    x[12] ^= rotate(x[8] + x[4], 13);
+    x[0] ^= rotate(x[12] + x[8], 18);
+    x[9] ^= rotate(x[5] + x[1], 7);
+    x[13] ^= rotate(x[9] + x[5], 9);
+    x[1] ^= rotate(x[13] + x[9], 13);
+    x[5] ^= rotate(x[1] + x[13], 18);
+    x[14] ^= rotate(x[10] + x[6], 7);
+    x[2] ^= rotate(x[14] + x[10], 9);
+    x[6] ^= rotate(x[2] + x[14], 13);
+    x[10] ^= rotate(x[6] + x[2], 18);
+    x[3] ^= rotate(x[15] + x[11], 7);
+    x[7] ^= rotate(x[3] + x[15], 9);
+    x[11] ^= rotate(x[7] + x[3], 13);
+    x[15] ^= rotate(x[11] + x[7], 18);
+    x[1] ^= rotate(x[0] + x[3], 7);
+    x[2] ^= rotate(x[1] + x[0], 9);
+    x[3] ^= rotate(x[2] + x[1], 13);
+    x[0] ^= rotate(x[3] + x[2], 18);
+    x[6] ^= rotate(x[5] + x[4], 7);
+    x[7] ^= rotate(x[6] + x[5], 9);
+    x[4] ^= rotate(x[7] + x[6], 13);
+    x[5] ^= rotate(x[4] + x[7], 18);
+    x[11] ^= rotate(x[10] + x[9], 7);
+    x[8] ^= rotate(x[11] + x[10], 9);
+    x[9] ^= rotate(x[8] + x[11], 13);
+    x[10] ^= rotate(x[9] + x[8], 18);
+    x[12] ^= rotate(x[15] + x[14], 7);
+    x[13] ^= rotate(x[12] + x[15], 9);
+    x[14] ^= rotate(x[13] + x[12], 13);
+    x[15] ^= rotate(x[14] + x[13], 18);
+  }
+  for (let index = 0; index < 16; index++) b[index] += x[index];
+}
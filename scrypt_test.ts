@@ -0,0 +1,50 @@
+import { assertEquals, assertRejects } from "./test_deps.ts";
+import { scrypt } from "./scrypt.ts";
+
+function toHex(bytes: Uint8Array): string {
+  return [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+Deno.test({
+  name: "scrypt() matches the test vectors of RFC 7914",
+  async fn(): Promise<void> {
+    const encoder = new TextEncoder();
+    assertEquals(
+      toHex(
+        await scrypt(new Uint8Array(), new Uint8Array(), {
+          n: 16,
+          r: 1,
+          p: 1,
+        }, 64),
+      ),
+      "77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442" +
+        "fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906",
+    );
+    assertEquals(
+      toHex(
+        await scrypt(encoder.encode("password"), encoder.encode("NaCl"), {
+          n: 1024,
+          r: 8,
+          p: 16,
+        }, 64),
+      ),
+      "fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162" +
+        "2eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640",
+    );
+  },
+});
+
+Deno.test({
+  name: "scrypt() rejects invalid parameters",
+  async fn(): Promise<void> {
+    const empty = new Uint8Array();
+    await assertRejects(
+      () => scrypt(empty, empty, { n: 15, r: 1, p: 1 }, 32),
+      RangeError,
+    );
+    await assertRejects(
+      () => scrypt(empty, empty, { n: 16, r: 0, p: 1 }, 32),
+      RangeError,
+    );
+  },
+});
@@ -0,0 +1,166 @@
+import type { CodeEncoding } from "./code_encoding.ts";
+import { Otp, OtpAlgorithm } from "./otp.ts";
+import type { OtpOptions } from "./otp.ts";
+
+/** Version of the serialization format written by toJSON. */
+export const serializationVersion = 1;
+
+/** Parameters shared by all serialized Otp instances. */
+export interface SerializedOtpBase {
+  version: number;
+  /** Base32 encoded secret. */
+  secret: string;
+  algorithm: OtpAlgorithm;
+  digits: number;
+  validationWindow: number;
+  /** Omitted if the past window follows the validation window. */
+  pastWindow?: number;
+  /** Omitted if the future window follows the validation window. */
+  futureWindow?: number;
+  /** Omitted for decimal codes. */
+  codeEncoding?: CodeEncoding;
+}
+
+export interface SerializedHotp extends SerializedOtpBase {
+  type: "hotp";
+  counter: number;
+}
+
+export interface SerializedTotp extends SerializedOtpBase {
+  type: "totp";
+  stepSize: number;
+  t0: number;
+  lastValidatedStep?: number;
+  /** @deprecated Only written for instances restored from older versions which do not know the last validated step. */
+  lastValidatedCode?: string;
+  driftOffset: number;
+  maxDriftAdjustment: number;
+}
+
+export interface SerializedOcra extends SerializedOtpBase {
+  type: "ocra";
+  /** OCRA suite which determines the algorithm and the digits. */
+  suite: string;
+  counter: number;
+}
+
+export type SerializedOtp = SerializedHotp | SerializedTotp | SerializedOcra;
+
+/** Runtime dependencies which are not serialized and have to be passed again on restore. */
+export type RestoreOptions = Pick<
+  OtpOptions,
+  "stateStore" | "accountId" | "throttlePolicy" | "clock" | "hmacProvider"
+>;
+
+type FieldType = "number" | "string" | "boolean";
+
+const typeFields: Record<
+  SerializedOtp["type"],
+  Record<string, [FieldType, boolean]>
+> = {
+  hotp: { counter: ["number", true] },
+  totp: {
+    stepSize: ["number", true],
+    t0: ["number", true],
+    lastValidatedStep: ["number", false],
+    lastValidatedCode: ["string", false],
+    driftOffset: ["number", true],
+    maxDriftAdjustment: ["number", true],
+  },
+  ocra: { suite: ["string", true], counter: ["number", true] },
+};
+
+/**
+ * Parses and validates a payload created by toJSON.
+ * The ranges of the values are checked by the constructors on restore.
+ * @param json JSON string or already parsed object.
+ * @param type Expected type, any type is accepted if omitted.
+ * @throws SyntaxError if the JSON string is malformed.
+ * @throws TypeError if the payload has an unexpected type, a field is missing or of the wrong type or the secret is not valid Base32.
+ * @throws RangeError if the version is not supported.
+ */
+export function parseSerializedOtp<T extends SerializedOtp["type"]>(
+  json: unknown,
+  type?: T,
+): Extract<SerializedOtp, { type: T }> {
+  const payload = typeof json === "string" ? JSON.parse(json) : json;
+  if (typeof payload !== "object" || payload === null) {
+    throw new TypeError("The serialized Otp must be an object.");
+  }
+  if (payload.version !== serializationVersion) {
+    throw new RangeError(
+      `The serialization version "${payload.version}" is not supported, expected ${serializationVersion}.`,
+    );
+  }
+  if (!Object.hasOwn(typeFields, payload.type)) {
+    throw new TypeError(
+      `The serialized Otp type "${payload.type}" is not supported.`,
+    );
+  }
+  if (type !== undefined && payload.type !== type) {
+    throw new TypeError(
+      `Expected a serialized ${type}, but got a ${payload.type}.`,
+    );
+  }
+  const fields: Record<string, [FieldType, boolean]> = {
+    secret: ["string", true],
+    algorithm: ["string", true],
+    digits: ["number", true],
+    validationWindow: ["number", true],
+    pastWindow: ["number", false],
+    futureWindow: ["number", false],
+    ...typeFields[payload.type as SerializedOtp["type"]],
+  };
+  for (const [name, [fieldType, required]] of Object.entries(fields)) {
+    checkField(payload, name, fieldType, required);
+  }
+  if (!Otp.validateSecret(payload.secret)) {
+    throw new TypeError("The serialized secret is not a valid Base32 string.");
+  }
+  if (!Object.values<string>(OtpAlgorithm).includes(payload.algorithm)) {
+    throw new TypeError(
+      `The serialized algorithm "${payload.algorithm}" is not supported.`,
+    );
+  }
+  if (payload.codeEncoding !== undefined) {
+    const codeEncoding = payload.codeEncoding;
+    if (typeof codeEncoding !== "object" || codeEncoding === null) {
+      throw new TypeError("The serialized code encoding must be an object.");
+    }
+    checkField(codeEncoding, "alphabet", "string", true);
+    checkField(codeEncoding, "leastSignificantFirst", "boolean", false);
+    checkField(codeEncoding, "grouping", "number", false);
+  }
+  return payload;
+}
+
+/**
+ * Returns the constructor options of the parameters shared by all serialized Otp instances.
+ * @param payload
+ */
+export function toOtpOptions(payload: SerializedOtpBase): OtpOptions {
+  return {
+    algorithm: payload.algorithm,
+    digits: payload.digits,
+    validationWindow: payload.validationWindow,
+    pastWindow: payload.pastWindow,
+    futureWindow: payload.futureWindow,
+    codeEncoding: payload.codeEncoding,
+  };
+}
+
+function checkField(
+  payload: Record<string, unknown>,
+  name: string,
+  fieldType: FieldType,
+  required: boolean,
+): void {
+  const value = payload[name];
+  if (value === undefined && !required) return;
+  const valueType: string = typeof value;
+  if (valueType !== fieldType) {
+    throw new TypeError(
+      `The serialized field "${name}" must be a ${fieldType}.`,
+    );
+  }
+}
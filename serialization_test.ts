@@ -0,0 +1,165 @@
+import {
+  assert,
+  assertEquals,
+  assertInstanceOf,
+  assertThrows,
+} from "./test_deps.ts";
+import { CodeEncodings } from "./code_encoding.ts";
+import { fromJSON } from "./factory.ts";
+import { Hotp } from "./hotp.ts";
+import { Ocra } from "./ocra.ts";
+import { OtpAlgorithm } from "./otp.ts";
+import { MemoryStateStore } from "./state_store.ts";
+import { Totp } from "./totp.ts";
+
+const rfcSecret = new TextEncoder().encode("12345678901234567890");
+const rfcBase32Secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+Deno.test({
+  name: "Hotp is serialized with its parameters and counter",
+  async fn(): Promise<void> {
+    const hotp = new Hotp(rfcSecret, {
+      digits: 8,
+      algorithm: OtpAlgorithm.SHA256,
+      validationWindow: 5,
+      counter: 3,
+    });
+    assertEquals(hotp.toJSON(), {
+      type: "hotp",
+      version: 1,
+      secret: rfcBase32Secret,
+      algorithm: OtpAlgorithm.SHA256,
+      digits: 8,
+      validationWindow: 5,
+      counter: 3,
+    });
+
+    const restored = Hotp.fromJSON(JSON.stringify(hotp));
+    assertEquals(restored.toJSON(), hotp.toJSON());
+    assertEquals(
+      await restored.generate({ sideEffects: false }),
+      await hotp.generate({ sideEffects: false }),
+    );
+  },
+});
+
+Deno.test({
+  name: "Totp is serialized with its windows, encoding and state",
+  async fn(): Promise<void> {
+    const totp = new Totp(rfcSecret, {
+      digits: 5,
+      codeEncoding: CodeEncodings.Steam,
+      stepSize: 60,
+      t0: 30,
+      pastWindow: 2,
+      futureWindow: 0,
+      lastValidatedStep: 1000,
+      maxDriftAdjustment: 1,
+      driftOffset: -1,
+    });
+    const serialized = JSON.parse(JSON.stringify(totp));
+    assertEquals(serialized, {
+      type: "totp",
+      version: 1,
+      secret: rfcBase32Secret,
+      algorithm: OtpAlgorithm.SHA1,
+      digits: 5,
+      validationWindow: 1,
+      pastWindow: 2,
+      futureWindow: 0,
+      codeEncoding: CodeEncodings.Steam,
+      stepSize: 60,
+      t0: 30,
+      lastValidatedStep: 1000,
+      driftOffset: -1,
+      maxDriftAdjustment: 1,
+    });
+
+    const restored = Totp.fromJSON(serialized);
+    assertEquals(restored.toJSON(), totp.toJSON());
+    assertEquals(
+      await restored.generate({ movingFactor: 59, sideEffects: false }),
+      await totp.generate({ movingFactor: 59, sideEffects: false }),
+    );
+
+    // The code of older versions is kept until the time step is known
+    const legacyTotp = new Totp(rfcSecret, { lastValidatedCode: "123456" });
+    assertEquals(legacyTotp.toJSON().lastValidatedCode, "123456");
+    assertEquals(
+      Totp.fromJSON(legacyTotp.toJSON()).lastValidatedCode,
+      "123456",
+    );
+  },
+});
+
+Deno.test({
+  name: "fromJSON() restores the type and passes the runtime options",
+  fn(): void {
+    const stateStore = new MemoryStateStore();
+    const ocra = new Ocra(rfcSecret, {
+      suite: "OCRA-1:HOTP-SHA1-6:C-QN08",
+      counter: 7,
+    });
+    const restoredOcra = fromJSON(JSON.stringify(ocra), {
+      stateStore,
+      accountId: "alice",
+    });
+    assertInstanceOf(restoredOcra, Ocra);
+    assertEquals((restoredOcra as Ocra).counter, 7);
+    assertEquals(restoredOcra.stateStore, stateStore);
+
+    assertInstanceOf(fromJSON(new Hotp(rfcSecret).toJSON()), Hotp);
+    assertInstanceOf(fromJSON(new Totp(rfcSecret).toJSON()), Totp);
+  },
+});
+
+Deno.test({
+  name: "fromJSON() rejects invalid payloads",
+  fn(): void {
+    const valid = new Hotp(rfcSecret).toJSON();
+    assertThrows(() => fromJSON("{"), SyntaxError);
+    assertThrows(() => fromJSON(null), TypeError);
+    assertThrows(() => fromJSON({ ...valid, version: 2 }), RangeError);
+    assertThrows(() => fromJSON({ ...valid, type: "motp" }), TypeError);
+    assertThrows(() => Totp.fromJSON(valid), TypeError, "totp");
+    assertThrows(() => fromJSON({ ...valid, counter: "1" }), TypeError);
+    assertThrows(() => fromJSON({ ...valid, secret: "01" }), TypeError);
+    assertThrows(() => fromJSON({ ...valid, algorithm: "MD5" }), TypeError);
+    assertThrows(
+      () => fromJSON({ ...valid, codeEncoding: { alphabet: 10 } }),
+      TypeError,
+    );
+    assertThrows(() => fromJSON({ ...valid, digits: 4 }), RangeError);
+    assertThrows(() => Hotp.fromJSON({ ...valid, counter: -5.5 }), RangeError);
+    assertThrows(() => fromJSON({ ...valid, counter: -1 }), RangeError);
+    const totp = new Totp(rfcSecret).toJSON();
+    assertThrows(() => fromJSON({ ...totp, t0: 0.5 }), RangeError, "t0");
+    assertThrows(
+      () => fromJSON({ ...totp, lastValidatedStep: -5.5 }),
+      RangeError,
+      "last validated step",
+    );
+    assertThrows(
+      () => new Totp(rfcSecret, { lastValidatedStep: 1e300 }),
+      RangeError,
+    );
+    assertThrows(
+      () => fromJSON({ ...totp, driftOffset: Infinity }),
+      RangeError,
+      "drift offset",
+    );
+    const ocra = new Ocra(rfcSecret, { suite: "OCRA-1:HOTP-SHA1-6:C-QN08" })
+      .toJSON();
+    assertThrows(() => fromJSON({ ...ocra, counter: 1.5 }), RangeError);
+    assertThrows(() => new Hotp(rfcSecret).resetCounter(-1), RangeError);
+    assertThrows(
+      () =>
+        new Ocra(rfcSecret, { suite: "OCRA-1:HOTP-SHA1-6:C-QN08" })
+          .resetCounter(1.5),
+      RangeError,
+    );
+    const { counter: _counter, ...withoutCounter } = valid;
+    assertThrows(() => fromJSON(withoutCounter), TypeError, "counter");
+    assert(fromJSON(valid));
+  },
+});
@@ -0,0 +1,130 @@
+/** State of an account which changes through the side effects of generate and validate. */
+export interface OtpState {
+  /** Counter of Hotp and Ocra. */
+  counter?: number;
+  /** Time step of the last accepted Totp code. */
+  lastValidatedStep?: number;
+  /** Learned clock drift of a Totp token in time steps. */
+  driftOffset?: number;
+  /** Consecutive failed validations counted by the throttle policy. */
+  failedAttempts?: number;
+  /** Time in milliseconds since the Unix epoch until validation is delayed by the throttle policy. */
+  blockedUntil?: number;
+}
+
+/** Storage of the state of many accounts, e.g. to share it between stateless servers. */
+export interface OtpStateStore {
+  /**
+   * Returns the state of the account or undefined if nothing is stored yet.
+   * @param accountId
+   */
+  get(accountId: string): Promise<OtpState | undefined>;
+
+  /**
+   * Stores the state only if the stored state still equals the expected state.
+   * @param accountId
+   * @param expected State returned by get or undefined if nothing was stored.
+   * @param state
+   * @returns false if the stored state was changed in the meantime.
+   */
+  compareAndSet(
+    accountId: string,
+    expected: OtpState | undefined,
+    state: OtpState,
+  ): Promise<boolean>;
+}
+
+/**
+ * Compares two states by their values, undefined properties are ignored.
+ * @param a
+ * @param b
+ */
+export function stateEquals(
+  a: OtpState | undefined,
+  b: OtpState | undefined,
+): boolean {
+  if (a === undefined || b === undefined) return a === b;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if (a[key as keyof OtpState] !== b[key as keyof OtpState]) return false;
+  }
+  return true;
+}
+
+/** Keeps the state in memory, which is useful for tests and single process servers. */
+export class MemoryStateStore implements OtpStateStore {
+  #states = new Map<string, OtpState>();
+
+  get(accountId: string): Promise<OtpState | undefined> {
+    const state = this.#states.get(accountId);
+    return Promise.resolve(state === undefined ? undefined : { ...state });
+  }
+
+  compareAndSet(
+    accountId: string,
+    expected: OtpState | undefined,
+    state: OtpState,
+  ): Promise<boolean> {
+    if (!stateEquals(this.#states.get(accountId), expected)) {
+      return Promise.resolve(false);
+    }
+    this.#states.set(accountId, { ...state });
+    return Promise.resolve(true);
+  }
+}
+
+/**
+ * Keeps the state of all accounts in a single JSON file, which requires the read and write permission.
+ * Writes are serialized within the process and replace the file atomically, but the file must not be shared between processes.
+ */
+export class JsonFileStateStore implements OtpStateStore {
+  #path: string;
+  public get path(): string {
+    return this.#path;
+  }
+
+  #queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param path Path of the JSON file, which is created on the first write.
+   */
+  constructor(path: string) {
+    this.#path = path;
+  }
+
+  get(accountId: string): Promise<OtpState | undefined> {
+    return this.#enqueue(async () => (await this.#read())[accountId]);
+  }
+
+  compareAndSet(
+    accountId: string,
+    expected: OtpState | undefined,
+    state: OtpState,
+  ): Promise<boolean> {
+    return this.#enqueue(async () => {
+      const states = await this.#read();
+      if (!stateEquals(states[accountId], expected)) return false;
+      states[accountId] = state;
+      const temporaryPath = `${this.#path}.tmp`;
+      await Deno.writeTextFile(temporaryPath, JSON.stringify(states, null, 2));
+      await Deno.rename(temporaryPath, this.#path);
+      return true;
+    });
+  }
+
+  async #read(): Promise<Record<string, OtpState>> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this.#path));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return {};
+      throw error;
+    }
+  }
+
+  /** Runs the operations one after another, so a read and the following write can not interleave. */
+  #enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.#queue.then(operation);
+    this.#queue = result.catch(() => {});
+    return result;
+  }
+}
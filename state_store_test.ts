@@ -0,0 +1,139 @@
+import {
+  assert,
+  assertEquals,
+  assertFalse,
+  assertThrows,
+} from "./test_deps.ts";
+import { Hotp } from "./hotp.ts";
+import { JsonFileStateStore, MemoryStateStore } from "./state_store.ts";
+import type { OtpStateStore } from "./state_store.ts";
+import { Totp } from "./totp.ts";
+
+const rfcSecret = new TextEncoder().encode("12345678901234567890");
+
+Deno.test({
+  name: "MemoryStateStore only sets the state if the expected state matches",
+  async fn(): Promise<void> {
+    const store = new MemoryStateStore();
+    assertEquals(await store.get("alice"), undefined);
+    assert(await store.compareAndSet("alice", undefined, { counter: 1 }));
+    assertFalse(await store.compareAndSet("alice", undefined, { counter: 2 }));
+    assertFalse(
+      await store.compareAndSet("alice", { counter: 2 }, { counter: 3 }),
+    );
+    assert(await store.compareAndSet("alice", { counter: 1 }, { counter: 3 }));
+    assertEquals(await store.get("alice"), { counter: 3 });
+    assertEquals(await store.get("bob"), undefined);
+
+    // The stored state can not be modified from the outside
+    const state = await store.get("alice");
+    if (state !== undefined) state.counter = 10;
+    assertEquals(await store.get("alice"), { counter: 3 });
+  },
+});
+
+Deno.test({
+  name: "JsonFileStateStore persists the state in a JSON file",
+  async fn(): Promise<void> {
+    const path = await Deno.makeTempFile({ suffix: ".json" });
+    await Deno.remove(path);
+    try {
+      const store = new JsonFileStateStore(path);
+      assertEquals(await store.get("alice"), undefined);
+      assert(await store.compareAndSet("alice", undefined, { counter: 1 }));
+      assert(
+        await store.compareAndSet("bob", undefined, { lastValidatedStep: 5 }),
+      );
+      assertFalse(
+        await store.compareAndSet("alice", { counter: 0 }, { counter: 2 }),
+      );
+
+      const reopenedStore = new JsonFileStateStore(path);
+      assertEquals(await reopenedStore.get("alice"), { counter: 1 });
+      assertEquals(await reopenedStore.get("bob"), { lastValidatedStep: 5 });
+      assertEquals(JSON.parse(await Deno.readTextFile(path)), {
+        alice: { counter: 1 },
+        bob: { lastValidatedStep: 5 },
+      });
+    } finally {
+      await Deno.remove(path).catch(() => {});
+    }
+  },
+});
+
+Deno.test({
+  name: "Hotp persists the counter in the state store",
+  async fn(): Promise<void> {
+    const stateStore = new MemoryStateStore();
+    const options = { stateStore, accountId: "alice", validationWindow: 10 };
+    const rfcCodeAt3 = "969 429";
+
+    // Simulate two stateless requests with new instances
+    assert(await new Hotp(rfcSecret, options).validate(rfcCodeAt3));
+    assertEquals(await stateStore.get("alice"), { counter: 4 });
+    const hotp = new Hotp(rfcSecret, options);
+    assertFalse(await hotp.validate(rfcCodeAt3));
+    assertEquals(hotp.counter, 4);
+
+    // generate increments the stored counter
+    assertEquals(await hotp.generate(), "338 314");
+    assertEquals(await stateStore.get("alice"), { counter: 5 });
+
+    // Without side effects nothing is stored
+    await hotp.generate({ sideEffects: false });
+    assertEquals(await stateStore.get("alice"), { counter: 5 });
+  },
+});
+
+Deno.test({
+  name: "Totp persists the last validated step in the state store",
+  async fn(): Promise<void> {
+    const stateStore = new MemoryStateStore();
+    const options = { stateStore, accountId: "alice" };
+    const code = await new Totp(rfcSecret).generate();
+
+    assert(await new Totp(rfcSecret, options).validate(code));
+    assertEquals(
+      (await stateStore.get("alice"))?.lastValidatedStep,
+      Math.floor(Date.now() / 1000 / 30),
+    );
+    assertFalse(await new Totp(rfcSecret, options).validate(code));
+  },
+});
+
+Deno.test({
+  name: "A code accepted by another process in the meantime is rejected",
+  async fn(): Promise<void> {
+    const memoryStateStore = new MemoryStateStore();
+    let concurrentWrite = true;
+    // Simulates another process which accepts the same code between get and compareAndSet
+    const stateStore: OtpStateStore = {
+      get: (accountId) => memoryStateStore.get(accountId),
+      async compareAndSet(accountId, expected, state) {
+        if (concurrentWrite) {
+          concurrentWrite = false;
+          await memoryStateStore.compareAndSet(accountId, expected, state);
+        }
+        return await memoryStateStore.compareAndSet(
+          accountId,
+          expected,
+          state,
+        );
+      },
+    };
+    const hotp = new Hotp(rfcSecret, { stateStore, accountId: "alice" });
+    assertFalse(await hotp.validate("969 429"));
+    assertEquals(hotp.counter, 4);
+    assertEquals(await memoryStateStore.get("alice"), { counter: 4 });
+  },
+});
+
+Deno.test({
+  name: "A state store requires an account id",
+  fn(): void {
+    assertThrows(
+      () => new Hotp(rfcSecret, { stateStore: new MemoryStateStore() }),
+      TypeError,
+    );
+  },
+});
@@ -0,0 +1,82 @@
+export interface ThrottlePolicyOptions {
+  /** Consecutive failures after which validation is locked until it is unlocked, defaults to 10. */
+  maxFailures?: number;
+  /** Consecutive failures which are allowed without a delay, defaults to 3. */
+  freeFailures?: number;
+  /** Delay in milliseconds after the first delayed failure, which is doubled with every further failure, defaults to 1000. */
+  initialDelay?: number;
+  /** Upper bound of the delay in milliseconds, defaults to 5 minutes. */
+  maxDelay?: number;
+}
+
+/**
+ * Throttling scheme limiting the amount of guesses as required by [RFC 4226 section 7.3](https://www.rfc-editor.org/rfc/rfc4226#section-7.3).
+ * After the free failures every failure delays the next validation exponentially and validation is locked after the maximum amount of consecutive failures.
+ * A valid code resets the consecutive failures.
+ */
+export class ThrottlePolicy {
+  #maxFailures = 10;
+  public get maxFailures(): number {
+    return this.#maxFailures;
+  }
+
+  #freeFailures = 3;
+  public get freeFailures(): number {
+    return this.#freeFailures;
+  }
+
+  #initialDelay = 1000;
+  public get initialDelay(): number {
+    return this.#initialDelay;
+  }
+
+  #maxDelay = 5 * 60 * 1000;
+  public get maxDelay(): number {
+    return this.#maxDelay;
+  }
+
+  /**
+   * @param options
+   * @throws RangeError if an option is negative or not an integer or maxFailures is zero.
+   */
+  constructor(options?: ThrottlePolicyOptions) {
+    for (const [name, value] of Object.entries(options ?? {})) {
+      if (value !== undefined && (!Number.isSafeInteger(value) || value < 0)) {
+        throw new RangeError(`${name} must be a non-negative integer.`);
+      }
+    }
+    if (options?.maxFailures !== undefined) {
+      if (options.maxFailures === 0) {
+        throw new RangeError("maxFailures must be at least 1.");
+      }
+      this.#maxFailures = options.maxFailures;
+    }
+    if (options?.freeFailures !== undefined) {
+      this.#freeFailures = options.freeFailures;
+    }
+    if (options?.initialDelay !== undefined) {
+      this.#initialDelay = options.initialDelay;
+    }
+    if (options?.maxDelay !== undefined) this.#maxDelay = options.maxDelay;
+  }
+
+  /**
+   * Returns the delay in milliseconds before the next validation is allowed.
+   * @param failedAttempts Amount of consecutive failures.
+   */
+  delay(failedAttempts: number): number {
+    if (failedAttempts <= this.#freeFailures) return 0;
+    return Math.min(
+      this.#initialDelay * 2 ** (failedAttempts - this.#freeFailures - 1),
+      this.#maxDelay,
+    );
+  }
+
+  /**
+   * Checks if validation is locked after the given amount of consecutive failures.
+   * @param failedAttempts
+   */
+  isLocked(failedAttempts: number): boolean {
+    return failedAttempts >= this.#maxFailures;
+  }
+}
@@ -0,0 +1,144 @@
+import { assert, assertEquals, assertThrows } from "./test_deps.ts";
+import { Hotp } from "./hotp.ts";
+import { ValidationFailureReason } from "./otp.ts";
+import { MemoryStateStore } from "./state_store.ts";
+import { ThrottlePolicy } from "./throttle.ts";
+import { Totp } from "./totp.ts";
+
+const rfcSecret = new TextEncoder().encode("12345678901234567890");
+
+Deno.test({
+  name: "ThrottlePolicy doubles the delay after the free failures",
+  fn(): void {
+    const policy = new ThrottlePolicy({
+      freeFailures: 2,
+      initialDelay: 100,
+      maxDelay: 1000,
+      maxFailures: 10,
+    });
+    assertEquals(
+      [0, 1, 2, 3, 4, 5, 6, 7].map((failures) => policy.delay(failures)),
+      [0, 0, 0, 100, 200, 400, 800, 1000],
+    );
+    assertEquals(policy.isLocked(9), false);
+    assertEquals(policy.isLocked(10), true);
+
+    const defaultPolicy = new ThrottlePolicy();
+    assertEquals(defaultPolicy.maxFailures, 10);
+    assertEquals(defaultPolicy.freeFailures, 3);
+    assertEquals(defaultPolicy.initialDelay, 1000);
+    assertEquals(defaultPolicy.maxDelay, 300000);
+  },
+});
+
+Deno.test({
+  name: "ThrottlePolicy rejects invalid options",
+  fn(): void {
+    assertThrows(() => new ThrottlePolicy({ maxFailures: 0 }), RangeError);
+    assertThrows(() => new ThrottlePolicy({ freeFailures: -1 }), RangeError);
+    assertThrows(() => new ThrottlePolicy({ initialDelay: 0.5 }), RangeError);
+    assertThrows(() => new ThrottlePolicy({ maxDelay: NaN }), RangeError);
+  },
+});
+
+Deno.test({
+  name: "validate() is delayed after failures",
+  async fn(): Promise<void> {
+    const hotp = new Hotp(rfcSecret, {
+      throttlePolicy: new ThrottlePolicy({
+        freeFailures: 1,
+        initialDelay: 60000,
+      }),
+    });
+    assertEquals(
+      (await hotp.validateDetailed("000 000")).reason,
+      ValidationFailureReason.Mismatch,
+    );
+    assertEquals(hotp.blockedUntil, undefined);
+    // Malformed codes are not counted
+    assertEquals(
+      (await hotp.validateDetailed("000")).reason,
+      ValidationFailureReason.Malformed,
+    );
+    assertEquals(hotp.failedAttempts, 1);
+
+    const before = Date.now();
+    assertEquals(
+      (await hotp.validateDetailed("000 000")).reason,
+      ValidationFailureReason.Mismatch,
+    );
+    assert((hotp.blockedUntil ?? 0) >= before + 60000);
+
+    // Even a valid code is rejected during the delay
+    const result = await hotp.validateDetailed("755 224");
+    assertEquals(result.valid, false);
+    assertEquals(result.reason, ValidationFailureReason.Throttled);
+    assert(result.retryAfter !== undefined && result.retryAfter <= 60000);
+    assertEquals(hotp.counter, 0);
+    assertEquals(hotp.failedAttempts, 2);
+  },
+});
+
+Deno.test({
+  name: "validate() is locked after the maximum failures until unlock",
+  async fn(): Promise<void> {
+    const totp = new Totp(rfcSecret, {
+      throttlePolicy: new ThrottlePolicy({ maxFailures: 3, initialDelay: 0 }),
+    });
+    const code = await totp.generate();
+    const wrongCode = code === "000 000" ? "111 111" : "000 000";
+    for (let i = 0; i < 3; i++) {
+      assertEquals(await totp.validate(wrongCode), false);
+    }
+    assert(totp.locked);
+    assertEquals(await totp.validateDetailed(code), {
+      valid: false,
+      reason: ValidationFailureReason.Locked,
+    });
+
+    await totp.unlock();
+    assertEquals(totp.locked, false);
+    assertEquals(totp.failedAttempts, 0);
+    assert(await totp.validate(code));
+  },
+});
+
+Deno.test({
+  name: "A valid code resets the failed attempts",
+  async fn(): Promise<void> {
+    const hotp = new Hotp(rfcSecret, {
+      throttlePolicy: new ThrottlePolicy({ maxFailures: 2 }),
+    });
+    assertEquals(await hotp.validate("000 000"), false);
+    assertEquals(hotp.failedAttempts, 1);
+    assert(await hotp.validate("755 224"));
+    assertEquals(hotp.failedAttempts, 0);
+  },
+});
+
+Deno.test({
+  name: "The throttle state is persisted in the state store",
+  async fn(): Promise<void> {
+    const stateStore = new MemoryStateStore();
+    const options = {
+      stateStore,
+      accountId: "alice",
+      throttlePolicy: new ThrottlePolicy({ maxFailures: 2, initialDelay: 0 }),
+    };
+    assertEquals(await new Hotp(rfcSecret, options).validate("000 000"), false);
+    assertEquals(await new Hotp(rfcSecret, options).validate("000 000"), false);
+    assertEquals(await stateStore.get("alice"), {
+      counter: 0,
+      failedAttempts: 2,
+      blockedUntil: undefined,
+    });
+    assertEquals(
+      (await new Hotp(rfcSecret, options).validateDetailed("755 224")).reason,
+      ValidationFailureReason.Locked,
+    );
+
+    await new Hotp(rfcSecret, options).unlock();
+    assert(await new Hotp(rfcSecret, options).validate("755 224"));
+    assertEquals((await stateStore.get("alice"))?.failedAttempts, 0);
+  },
+});
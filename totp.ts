@@ -1,10 +1,35 @@
-import type { OtpOptions } from "./otp.ts";
-import { GenerateOptions, Otp, OtpAlgorithm, ValidateOptions } from "./otp.ts";
+import type { OtpOptions, ValidationResult } from "./otp.ts";
+import {
+  GenerateOptions,
+  Otp,
+  OtpAlgorithm,
+  ValidateOptions,
+  ValidationFailureReason,
+} from "./otp.ts";
 import { cleanUserInputFormat } from "./util.ts";
+import type { KeyUriLabel } from "./key_uri.ts";
+import { parseSerializedOtp, toOtpOptions } from "./serialization.ts";
+import type { RestoreOptions, SerializedTotp } from "./serialization.ts";
+import type { OtpState } from "./state_store.ts";
 
 export interface TotpOptions {
   stepSize?: number;
+  /** Unix time in seconds to start counting the time steps from (T0 of RFC 6238), defaults to 0. */
+  t0?: number;
+  /** Time step of the last accepted code, codes of this or an earlier time step are rejected. */
+  lastValidatedStep?: number;
+  /**
+   * @deprecated Persist lastValidatedStep instead.
+   * Stored state of older versions is still rejected as replay until the next code is accepted and lastValidatedStep is known.
+   */
   lastValidatedCode?: string;
+  /** Learned clock drift of the token in time steps, which is added to the current time step on validation. */
+  driftOffset?: number;
+  /**
+   * Maximum amount of time steps the drift offset is moved by a single validation, defaults to 0 which disables the drift learning.
+   * The window still has to contain the drifted code, so a larger window allows to learn faster.
+   */
+  maxDriftAdjustment?: number;
 }
 
 export class Totp extends Otp {
@@ -13,11 +38,39 @@ export class Totp extends Otp {
     return this.#stepSize;
   }
 
+  #t0 = 0;
+  public get t0(): number {
+    return this.#t0;
+  }
+
+  #lastValidatedStep?: number;
+  /** Time step of the last accepted code which should be persisted for the replay protection. */
+  public get lastValidatedStep(): number | undefined {
+    return this.#lastValidatedStep;
+  }
+
   #lastValidatedCode?: string;
+  /** @deprecated Use lastValidatedStep, the code is only kept for compatibility. */
   public get lastValidatedCode(): string | undefined {
     return this.#lastValidatedCode;
   }
 
+  #driftOffset = 0;
+  /** Learned clock drift of the token in time steps which should be persisted. */
+  public get driftOffset(): number {
+    return this.#driftOffset;
+  }
+
+  #maxDriftAdjustment = 0;
+  public get maxDriftAdjustment(): number {
+    return this.#maxDriftAdjustment;
+  }
+
+  /**
+   * @param secret
+   * @param options
+   * @throws RangeError if the step size is not a positive integer, t0 or the drift offset is not an integer or the last validated step or the maximum drift adjustment is negative or not an integer.
+   */
   constructor(secret: Uint8Array | string, options?: TotpOptions & OtpOptions) {
     const defaultOptions: OtpOptions = {
       algorithm: OtpAlgorithm.SHA1,
@@ -30,10 +83,49 @@ export class Totp extends Otp {
       ...options,
     };
     super(secret, normalizedOptions);
-    if (options?.stepSize !== undefined) this.#stepSize = options.stepSize;
+    if (options?.stepSize !== undefined) {
+      if (!Number.isInteger(options.stepSize) || options.stepSize <= 0) {
+        throw new RangeError("The step size must be a positive integer.");
+      }
+      this.#stepSize = options.stepSize;
+    }
+    if (options?.t0 !== undefined) {
+      if (!Number.isSafeInteger(options.t0)) {
+        throw new RangeError("The t0 must be an integer.");
+      }
+      this.#t0 = options.t0;
+    }
+    if (options?.lastValidatedStep !== undefined) {
+      if (
+        !Number.isSafeInteger(options.lastValidatedStep) ||
+        options.lastValidatedStep < 0
+      ) {
+        throw new RangeError(
+          "The last validated step must be a non-negative integer.",
+        );
+      }
+      this.#lastValidatedStep = options.lastValidatedStep;
+    }
     if (options?.lastValidatedCode !== undefined) {
       this.#lastValidatedCode = options.lastValidatedCode;
     }
+    if (options?.driftOffset !== undefined) {
+      if (!Number.isSafeInteger(options.driftOffset)) {
+        throw new RangeError("The drift offset must be an integer.");
+      }
+      this.#driftOffset = options.driftOffset;
+    }
+    if (options?.maxDriftAdjustment !== undefined) {
+      if (
+        !Number.isSafeInteger(options.maxDriftAdjustment) ||
+        options.maxDriftAdjustment < 0
+      ) {
+        throw new RangeError(
+          "The maximum drift adjustment must be a non-negative integer.",
+        );
+      }
+      this.#maxDriftAdjustment = options.maxDriftAdjustment;
+    }
   }
 
   /**
@@ -45,8 +137,7 @@ export class Totp extends Otp {
    */
   async generate(options?: GenerateOptions): Promise<string> {
     // INFO: Side effects is not used
-    const calculatedMovingFactor = calculateMovingFactor(
-      this.#stepSize,
+    const calculatedMovingFactor = this.#calculateMovingFactor(
       options?.movingFactor,
     );
 
@@ -61,26 +152,82 @@ export class Totp extends Otp {
   }
 
   /**
-   * Validates the formatted otp code, ignoring spaces and increments the internal counter.
-   * Attention it only causes side effects if no moving factor is provided.
+   * Generates the formatted Otp code like generate, but synchronously with the TypeScript HMAC implementation.
+   * @param options
+   */
+  generateSync(options?: GenerateOptions): string {
+    return this.generateCodeNoSideEffectsSync(
+      this.#calculateMovingFactor(options?.movingFactor),
+      options?.formatCode ?? true,
+      {
+        grouping: options?.grouping,
+      },
+    );
+  }
+
+  /**
+   * Validates the formatted otp code, ignoring spaces and remembers the matched time step if options.sideEffects is set to true (default).
+   * Codes of the last validated or an earlier time step are rejected as replayed.
+   * The expected time step is the current one shifted by the drift offset, which follows the delta of accepted codes
+   * by at most maxDriftAdjustment steps if options.sideEffects is set to true (default).
+   * The delta of the result is the difference between the matched and the expected time step.
    * @param code
    * @param options
    */
-  async validate(
+  async validateDetailed(
     code: string,
     options?: ValidateOptions,
-  ): Promise<boolean> {
-    const calculatedMovingFactor = calculateMovingFactor(
-      this.#stepSize,
-      options?.movingFactor,
+  ): Promise<ValidationResult> {
+    return await this.withThrottledState(() =>
+      this.matchCode(code, this.#validationSteps(code, options))
+    );
+  }
+
+  /**
+   * Validates the formatted otp code like validate, but synchronously with the TypeScript HMAC implementation.
+   * @param code
+   * @param options
+   * @throws TypeError if a state store is used, because its methods are asynchronous.
+   * @throws Error if an asynchronous operation of this instance is still running.
+   */
+  validateSync(code: string, options?: ValidateOptions): boolean {
+    return this.validateDetailedSync(code, options).valid;
+  }
+
+  /**
+   * Validates the formatted otp code like validateDetailed, but synchronously with the TypeScript HMAC implementation.
+   * @param code
+   * @param options
+   * @throws TypeError if a state store is used, because its methods are asynchronous.
+   * @throws Error if an asynchronous operation of this instance is still running.
+   */
+  validateDetailedSync(
+    code: string,
+    options?: ValidateOptions,
+  ): ValidationResult {
+    return this.withThrottledStateSync(() =>
+      this.matchCodeSync(code, this.#validationSteps(code, options))
     );
-    let codeIsValid = false;
-    const validationWindow = options?.validateAgainstWindow
-      ? this.validationWindow
-      : 0;
+  }
+
+  /** Yields the time steps of the window until the code matches a time step which was not used yet. */
+  *#validationSteps(
+    code: string,
+    options?: ValidateOptions,
+  ): Generator<number, ValidationResult, boolean> {
+    if (!this.isWellFormedCode(code)) {
+      return { valid: false, reason: ValidationFailureReason.Malformed };
+    }
+    const calculatedMovingFactor =
+      this.#calculateMovingFactor(options?.movingFactor) + this.#driftOffset;
+    let matchedAttempt: number | undefined;
+    let replayedAttempt: number | undefined;
+    const pastWindow = options?.validateAgainstWindow ? this.pastWindow : 0;
+    const futureWindow = options?.validateAgainstWindow ? this.futureWindow : 0;
+    // Start at 0 instead of -0 if the window is disabled, so the delta is reported as 0
     for (
-      let attempt = -validationWindow;
-      attempt <= validationWindow;
+      let attempt = pastWindow > 0 ? -pastWindow : 0;
+      attempt <= futureWindow;
       attempt++
     ) {
       const movingFactorAndAttempt = calculatedMovingFactor + attempt;
@@ -89,55 +236,154 @@ export class Totp extends Otp {
         continue;
       }
 
-      codeIsValid = !codeIsValid
-        ? await this.validateCodeNoSideEffects(
-          code,
-          movingFactorAndAttempt,
-        )
-        : codeIsValid;
-
-      if (codeIsValid) {
+      if (yield movingFactorAndAttempt) {
+        // Ensure one time use by rejecting codes of already used time steps (RFC 6238 section 5.2)
+        if (
+          this.#lastValidatedStep !== undefined &&
+          movingFactorAndAttempt <= this.#lastValidatedStep
+        ) {
+          replayedAttempt ??= attempt;
+          continue;
+        }
+        matchedAttempt = attempt;
         // Get out of the loop
         break;
       }
     }
-    // Ensure one time use
-    if (codeIsValid) {
-      // Check if the code is reused
-      if (
-        this.#lastValidatedCode &&
-        this.#lastValidatedCode === cleanUserInputFormat(code)
-      ) {
-        return false;
+    if (matchedAttempt === undefined) {
+      if (replayedAttempt !== undefined) {
+        return {
+          valid: false,
+          reason: ValidationFailureReason.Replayed,
+          matchedMovingFactor: calculatedMovingFactor + replayedAttempt,
+          delta: replayedAttempt,
+        };
       }
+      return { valid: false, reason: ValidationFailureReason.Mismatch };
+    }
+    const match = {
+      matchedMovingFactor: calculatedMovingFactor + matchedAttempt,
+      delta: matchedAttempt,
+    };
 
-      // Set the last validated code to the generated code, so it is not reusable
-      if (options?.sideEffects ?? true) {
-        this.#lastValidatedCode = await this.generateCodeNoSideEffects(
-          calculatedMovingFactor,
-          false,
-        );
-      }
+    // Fall back to the code of older versions if the time step is unknown
+    if (
+      this.#lastValidatedStep === undefined &&
+      this.#lastValidatedCode === cleanUserInputFormat(code)
+    ) {
+      return {
+        valid: false,
+        reason: ValidationFailureReason.Replayed,
+        ...match,
+      };
+    }
+
+    if (options?.sideEffects ?? true) {
+      this.#lastValidatedStep = match.matchedMovingFactor;
+      this.#lastValidatedCode = cleanUserInputFormat(code);
+      this.#driftOffset += Math.max(
+        -this.#maxDriftAdjustment,
+        Math.min(this.#maxDriftAdjustment, matchedAttempt),
+      );
     }
-    return codeIsValid;
+    return { valid: true, ...match };
+  }
+
+  protected exportState(): OtpState {
+    return {
+      lastValidatedStep: this.#lastValidatedStep,
+      driftOffset: this.#driftOffset,
+    };
   }
 
+  protected importState(state: OtpState) {
+    if (state.lastValidatedStep !== undefined) {
+      this.#lastValidatedStep = state.lastValidatedStep;
+    }
+    if (state.driftOffset !== undefined) this.#driftOffset = state.driftOffset;
+  }
+
+  toJSON(): SerializedTotp {
+    return {
+      type: "totp",
+      ...this.serializeBase(),
+      stepSize: this.#stepSize,
+      t0: this.#t0,
+      ...(this.#lastValidatedStep !== undefined &&
+        { lastValidatedStep: this.#lastValidatedStep }),
+      // Keep the code of older versions until the time step is known
+      ...(this.#lastValidatedStep === undefined &&
+        this.#lastValidatedCode !== undefined &&
+        { lastValidatedCode: this.#lastValidatedCode }),
+      driftOffset: this.#driftOffset,
+      maxDriftAdjustment: this.#maxDriftAdjustment,
+    };
+  }
+
+  /**
+   * Restores an instance serialized by toJSON.
+   * @param json JSON string or already parsed object.
+   * @param options Runtime dependencies which are not serialized.
+   * @throws SyntaxError if the JSON string is malformed.
+   * @throws TypeError if the payload is not a valid serialized Totp.
+   * @throws RangeError if the version is not supported or a value is out of range.
+   */
+  static fromJSON(json: unknown, options?: RestoreOptions): Totp {
+    const payload = parseSerializedOtp(json, "totp");
+    return new Totp(payload.secret, {
+      ...toOtpOptions(payload),
+      ...options,
+      stepSize: payload.stepSize,
+      t0: payload.t0,
+      lastValidatedStep: payload.lastValidatedStep,
+      lastValidatedCode: payload.lastValidatedCode,
+      driftOffset: payload.driftOffset,
+      maxDriftAdjustment: payload.maxDriftAdjustment,
+    });
+  }
+
+  /**
+   * Creates a key URI like `otpauth://totp/Issuer:account?secret=...&period=...` containing the step size as period.
+   * @param label
+   */
+  toUri(label: KeyUriLabel): string {
+    return this.createKeyUri("totp", label, { period: this.#stepSize });
+  }
+
+  /**
+   * Calculates the seconds until the next time step starts.
+   * @param seconds Unix time in seconds, defaults to the current time of the clock.
+   */
   secondsUntilNextWindow(seconds?: number): number {
-    return Totp.secondsUntilNextWindow(this.#stepSize, seconds);
+    return Totp.secondsUntilNextWindow(
+      this.#stepSize,
+      seconds ?? this.clock.now() / 1000,
+      this.#t0,
+    );
   }
 
-  static secondsUntilNextWindow(stepSize: number, seconds?: number): number {
-    return stepSize -
-      Math.floor(
-          seconds ?? (Date.now() / 1000),
-        ) % stepSize;
+  /**
+   * Calculates the seconds until the next time step starts.
+   * @param stepSize
+   * @param seconds Unix time in seconds, defaults to the current system time.
+   * @param t0 Unix time in seconds to start counting the time steps from.
+   */
+  static secondsUntilNextWindow(
+    stepSize: number,
+    seconds?: number,
+    t0 = 0,
+  ): number {
+    const elapsedSeconds = Math.floor(seconds ?? (Date.now() / 1000)) - t0;
+    return stepSize - ((elapsedSeconds % stepSize) + stepSize) % stepSize;
   }
-}
 
-function calculateMovingFactor(stepSize: number, seconds?: number): number {
-  // Calculate moving factor and convert ms to seconds
-  seconds = seconds !== undefined
-    ? Math.floor(seconds)
-    : Math.floor(Date.now() / 1000);
-  return Math.floor(seconds / stepSize);
+  /**
+   * Calculates the time step of the given or the current time of the clock.
+   * @param seconds Unix time in seconds.
+   */
+  #calculateMovingFactor(seconds?: number): number {
+    // Convert ms of the clock to seconds
+    seconds = Math.floor(seconds ?? this.clock.now() / 1000);
+    return Math.floor((seconds - this.#t0) / this.#stepSize);
+  }
 }
@@ -1,6 +1,12 @@
 import { encode } from "./deps.ts";
-import { OtpAlgorithm, OtpOptions } from "./otp.ts";
-import { assert, assertEquals, assertFalse } from "./test_deps.ts";
+import { pureHmacProvider, webCryptoHmacProvider } from "./hmac.ts";
+import { OtpAlgorithm, OtpOptions, ValidationFailureReason } from "./otp.ts";
+import {
+  assert,
+  assertEquals,
+  assertFalse,
+  assertThrows,
+} from "./test_deps.ts";
 import { Totp, TotpOptions } from "./totp.ts";
 
 // RFC6238 test vectors and tests
@@ -85,35 +91,40 @@ import { Totp, TotpOptions } from "./totp.ts";
       const rfcOptions: TotpOptions & OtpOptions = {
         digits: 8,
       };
-      for (let index = 0; index < rfcSeconds.length; index++) {
-        const seconds = rfcSeconds[index];
-        assertEquals(
-          await (new Totp(rfcSha1Secret, {
-            ...rfcOptions,
-            algorithm: OtpAlgorithm.SHA1,
-          })).generate(
-            { movingFactor: seconds, sideEffects: false },
-          ),
-          rfcSha1Codes[index],
-        );
-        assertEquals(
-          await (new Totp(rfcSha256Secret, {
-            digits: 8,
-            algorithm: OtpAlgorithm.SHA256,
-          })).generate(
-            { movingFactor: seconds, sideEffects: false },
-          ),
-          rfcSha256Codes[index],
-        );
-        assertEquals(
-          await (new Totp(rfcSha512Secret, {
-            digits: 8,
-            algorithm: OtpAlgorithm.SHA512,
-          })).generate(
-            { movingFactor: seconds, sideEffects: false },
-          ),
-          rfcSha512Codes[index],
-        );
+      for (const hmacProvider of [webCryptoHmacProvider, pureHmacProvider]) {
+        for (let index = 0; index < rfcSeconds.length; index++) {
+          const seconds = rfcSeconds[index];
+          assertEquals(
+            await (new Totp(rfcSha1Secret, {
+              ...rfcOptions,
+              algorithm: OtpAlgorithm.SHA1,
+              hmacProvider,
+            })).generate(
+              { movingFactor: seconds, sideEffects: false },
+            ),
+            rfcSha1Codes[index],
+          );
+          assertEquals(
+            await (new Totp(rfcSha256Secret, {
+              ...rfcOptions,
+              algorithm: OtpAlgorithm.SHA256,
+              hmacProvider,
+            })).generate(
+              { movingFactor: seconds, sideEffects: false },
+            ),
+            rfcSha256Codes[index],
+          );
+          assertEquals(
+            await (new Totp(rfcSha512Secret, {
+              ...rfcOptions,
+              algorithm: OtpAlgorithm.SHA512,
+              hmacProvider,
+            })).generate(
+              { movingFactor: seconds, sideEffects: false },
+            ),
+            rfcSha512Codes[index],
+          );
+        }
       }
     },
   });
@@ -421,3 +432,367 @@ Deno.test({
     assertFalse(await serverTotp.validate(clientCode));
   },
 });
+
+Deno.test({
+  name: "validateDetailed() reports the matched time step and the reason",
+  async fn(): Promise<void> {
+    const totp = new Totp(new TextEncoder().encode("12345678901234567890"), {
+      digits: 8,
+    });
+    // 1111111109 is the time step 37037036
+    const time = 1111111109;
+    const code = await totp.generate({
+      movingFactor: time,
+      sideEffects: false,
+    });
+
+    assertEquals(
+      await totp.validateDetailed(code, {
+        movingFactor: time + 30,
+        sideEffects: false,
+        validateAgainstWindow: true,
+      }),
+      { valid: true, matchedMovingFactor: 37037036, delta: -1 },
+    );
+    assertEquals(
+      await totp.validateDetailed(code, {
+        movingFactor: time + 60,
+        sideEffects: false,
+        validateAgainstWindow: true,
+      }),
+      { valid: false, reason: ValidationFailureReason.Mismatch },
+    );
+    assertEquals(
+      await totp.validateDetailed("0708 180", {
+        movingFactor: time,
+        sideEffects: false,
+        validateAgainstWindow: true,
+      }),
+      { valid: false, reason: ValidationFailureReason.Malformed },
+    );
+
+    const currentCode = await totp.generate();
+    assertEquals((await totp.validateDetailed(currentCode)).valid, true);
+    assertEquals(
+      (await totp.validateDetailed(currentCode)).reason,
+      ValidationFailureReason.Replayed,
+    );
+  },
+});
+
+Deno.test({
+  name: "validate() rejects codes of the last validated or earlier time steps",
+  async fn(): Promise<void> {
+    const secret = new TextEncoder().encode("12345678901234567890");
+    const totp = new Totp(secret, { validationWindow: 1 });
+    const time = 1111111109;
+    const options = { validateAgainstWindow: true, sideEffects: true };
+    const codeAtPreviousStep = await totp.generate({
+      movingFactor: time - 30,
+      sideEffects: false,
+    });
+    const codeAtStep = await totp.generate({
+      movingFactor: time,
+      sideEffects: false,
+    });
+
+    assert(await totp.validate(codeAtStep, { ...options, movingFactor: time }));
+    assertEquals(totp.lastValidatedStep, 37037036);
+
+    // An older code of the window is rejected after a newer one was used
+    assertEquals(
+      await totp.validateDetailed(codeAtPreviousStep, {
+        ...options,
+        movingFactor: time,
+      }),
+      {
+        valid: false,
+        reason: ValidationFailureReason.Replayed,
+        matchedMovingFactor: 37037035,
+        delta: -1,
+      },
+    );
+    assertFalse(
+      await totp.validate(codeAtStep, { ...options, movingFactor: time + 30 }),
+    );
+
+    // The state can be restored from the last validated step
+    const restoredTotp = new Totp(secret, {
+      validationWindow: 1,
+      lastValidatedStep: totp.lastValidatedStep,
+    });
+    assertFalse(
+      await restoredTotp.validate(codeAtStep, {
+        ...options,
+        movingFactor: time,
+      }),
+    );
+    assert(
+      await restoredTotp.validate(
+        await totp.generate({ movingFactor: time + 30, sideEffects: false }),
+        { ...options, movingFactor: time },
+      ),
+    );
+    assertEquals(restoredTotp.lastValidatedStep, 37037037);
+  },
+});
+
+Deno.test({
+  name: "validate() accepts an identical code of a later time step",
+  async fn(): Promise<void> {
+    const secret = new TextEncoder().encode("12345678901234567890");
+    const totp = new Totp(secret, { validationWindow: 0 });
+    // Search two time steps with an identical code, which is likely among a few thousand steps
+    const firstSteps = new Map<string, number>();
+    let code: string;
+    let step = 0;
+    for (;; step++) {
+      code = await totp.generate({
+        movingFactor: step * 30,
+        sideEffects: false,
+      });
+      if (firstSteps.has(code)) break;
+      firstSteps.set(code, step);
+    }
+    assert(
+      await totp.validate(code, {
+        movingFactor: (firstSteps.get(code) ?? 0) * 30,
+        sideEffects: true,
+        validateAgainstWindow: false,
+      }),
+    );
+    assert(
+      await totp.validate(code, {
+        movingFactor: step * 30,
+        sideEffects: true,
+        validateAgainstWindow: false,
+      }),
+    );
+    assertEquals(totp.lastValidatedStep, step);
+  },
+});
+
+Deno.test({
+  name: "validate() migrates the last validated code of older versions",
+  async fn(): Promise<void> {
+    const secret = new TextEncoder().encode("12345678901234567890");
+    const time = 1111111109;
+    const storedCode = await new Totp(secret).generate({
+      movingFactor: time,
+      formatCode: false,
+      sideEffects: false,
+    });
+    const totp = new Totp(secret, { lastValidatedCode: storedCode });
+    const options = { validateAgainstWindow: true, sideEffects: true };
+
+    assertEquals(totp.lastValidatedStep, undefined);
+    assertFalse(
+      await totp.validate(storedCode, { ...options, movingFactor: time }),
+    );
+    assert(
+      await totp.validate(
+        await totp.generate({ movingFactor: time + 30, sideEffects: false }),
+        { ...options, movingFactor: time + 30 },
+      ),
+    );
+    assertEquals(totp.lastValidatedStep, 37037037);
+  },
+});
+
+Deno.test({
+  name: "validate() learns the clock drift of the token",
+  async fn(): Promise<void> {
+    const secret = new TextEncoder().encode("12345678901234567890");
+    const step = 37037036;
+    const tokenCode = (tokenStep: number) =>
+      new Totp(secret).generate({
+        movingFactor: tokenStep * 30,
+        sideEffects: false,
+      });
+    const options = { validateAgainstWindow: true, sideEffects: true };
+    const totp = new Totp(secret, { maxDriftAdjustment: 1 });
+
+    // The token runs one step ahead and later two steps ahead
+    assert(
+      await totp.validate(await tokenCode(step + 1), {
+        ...options,
+        movingFactor: step * 30,
+      }),
+    );
+    assertEquals(totp.driftOffset, 1);
+    assertEquals(
+      await totp.validateDetailed(await tokenCode(step + 3), {
+        ...options,
+        movingFactor: (step + 1) * 30,
+      }),
+      { valid: true, matchedMovingFactor: step + 3, delta: 1 },
+    );
+    assertEquals(totp.driftOffset, 2);
+    // Three steps ahead are outside of the window without the learned drift
+    assert(
+      await totp.validate(await tokenCode(step + 6), {
+        ...options,
+        movingFactor: (step + 3) * 30,
+      }),
+    );
+    assertEquals(totp.driftOffset, 3);
+    assertFalse(
+      await new Totp(secret).validate(await tokenCode(step + 9), {
+        ...options,
+        movingFactor: (step + 6) * 30,
+      }),
+    );
+  },
+});
+
+Deno.test({
+  name: "validate() caps the drift adjustment of a single validation",
+  async fn(): Promise<void> {
+    const secret = new TextEncoder().encode("12345678901234567890");
+    const step = 37037036;
+    const totp = new Totp(secret, {
+      validationWindow: 3,
+      maxDriftAdjustment: 1,
+      driftOffset: -1,
+    });
+    const code = await totp.generate({
+      movingFactor: (step - 4) * 30,
+      sideEffects: false,
+    });
+    assert(
+      await totp.validate(code, {
+        movingFactor: step * 30,
+        sideEffects: false,
+        validateAgainstWindow: true,
+      }),
+    );
+    assertEquals(totp.driftOffset, -1);
+    assert(
+      await totp.validate(code, {
+        movingFactor: step * 30,
+        sideEffects: true,
+        validateAgainstWindow: true,
+      }),
+    );
+    assertEquals(totp.driftOffset, -2);
+
+    // Without a maximum adjustment the drift is not learned
+    const fixedTotp = new Totp(secret);
+    assert(
+      await fixedTotp.validate(
+        await fixedTotp.generate({
+          movingFactor: (step + 1) * 30,
+          sideEffects: false,
+        }),
+        {
+          movingFactor: step * 30,
+          sideEffects: true,
+          validateAgainstWindow: true,
+        },
+      ),
+    );
+    assertEquals(fixedTotp.driftOffset, 0);
+    assertThrows(
+      () => new Totp(secret, { maxDriftAdjustment: -1 }),
+      RangeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "generate(), validate() and the countdown use the injected clock",
+  async fn(): Promise<void> {
+    const secret = new TextEncoder().encode("12345678901234567890");
+    let now = 59000;
+    const clock = { now: () => now };
+    const totp = new Totp(secret, { digits: 8, clock });
+
+    // RFC 6238 test vector for the time 59
+    assertEquals(
+      await totp.generate({ formatCode: false, sideEffects: false }),
+      "94287082",
+    );
+    assertEquals(totp.secondsUntilNextWindow(), 1);
+    assert(await totp.validate("94287082"));
+
+    now = 1111111109000;
+    assertEquals(
+      await totp.generate({ formatCode: false, sideEffects: false }),
+      "07081804",
+    );
+    assertEquals(totp.secondsUntilNextWindow(), 1);
+    assertFalse(await totp.validate("94287082"));
+  },
+});
+
+Deno.test({
+  name: "t0 shifts the start of the time steps",
+  async fn(): Promise<void> {
+    const secret = new TextEncoder().encode("12345678901234567890");
+    const clock = { now: () => 89000 };
+    const totp = new Totp(secret, { digits: 8, t0: 30, clock });
+    assertEquals(totp.t0, 30);
+
+    // Time step 1 like the RFC 6238 test vector for the time 59
+    assertEquals(
+      await totp.generate({ formatCode: false, sideEffects: false }),
+      "94287082",
+    );
+    assertEquals(
+      await totp.generate({
+        movingFactor: 89,
+        formatCode: false,
+        sideEffects: false,
+      }),
+      "94287082",
+    );
+    assertEquals(
+      await totp.validateDetailed("94287082"),
+      { valid: true, matchedMovingFactor: 1, delta: 0 },
+    );
+    assertEquals(totp.secondsUntilNextWindow(), 1);
+    assertEquals(totp.secondsUntilNextWindow(30), 30);
+    assertEquals(Totp.secondsUntilNextWindow(30, 0, 10), 10);
+  },
+});
+
+Deno.test({
+  name:
+    "generateSync() and validateSync() reject replays like the async methods",
+  async fn(): Promise<void> {
+    const secret = new TextEncoder().encode("12345678901234567890");
+    const totp = new Totp(secret, { digits: 8, validationWindow: 1 });
+    const time = 1111111109;
+    const options = { validateAgainstWindow: true, sideEffects: true };
+    const code = totp.generateSync({ movingFactor: time, sideEffects: false });
+    assertEquals(code, "0708 1804");
+    assertEquals(
+      code,
+      await totp.generate({ movingFactor: time, sideEffects: false }),
+    );
+
+    assertEquals(
+      totp.validateDetailedSync(code, { ...options, movingFactor: time + 30 }),
+      { valid: true, matchedMovingFactor: 37037036, delta: -1 },
+    );
+    assertEquals(totp.lastValidatedStep, 37037036);
+    assertEquals(
+      totp.validateDetailedSync(code, { ...options, movingFactor: time }),
+      {
+        valid: false,
+        reason: ValidationFailureReason.Replayed,
+        matchedMovingFactor: 37037036,
+        delta: 0,
+      },
+    );
+    assertFalse(
+      await totp.validate(code, { ...options, movingFactor: time }),
+    );
+
+    const clock = { now: () => 59000 };
+    assertEquals(
+      new Totp(secret, { digits: 8, clock }).generateSync(),
+      "9428 7082",
+    );
+  },
+});
@@ -1,3 +1,5 @@
+import { webCryptoHmacProvider } from "./hmac.ts";
+import type { HmacProvider } from "./hmac.ts";
 import { OtpAlgorithm } from "./otp.ts";
 
 /**
@@ -56,32 +58,37 @@ export function codeToNumber(code: string | number): number {
 }
 
 export interface CalculateHmacDigestOptions {
-  movingFactor: number;
+  /** Moving factor which is signed as 8 byte number if no message is provided. */
+  movingFactor?: number;
+  /** Arbitrary bytes to sign instead of the moving factor. */
+  message?: Uint8Array;
   secret: Uint8Array;
-  algorithm: OtpAlgorithm | AlgorithmIdentifier;
+  algorithm: OtpAlgorithm;
+  /** Implementation of the HMAC, defaults to the WebCrypto API. */
+  hmacProvider?: HmacProvider;
 }
 
 /**
- * Calculates the HMAC digest based on the moving factor.
+ * Calculates the HMAC digest based on the moving factor or the message.
  *
  * @param options Options for calculating the HMAC digest
- * @throws Errors if the movingFactor exceeds 64 bit
+ * @throws Errors if the movingFactor exceeds 64 bit or neither a movingFactor nor a message is provided
  */
 export async function calculateHmacDigest(
   options: CalculateHmacDigestOptions,
 ): Promise<Uint8Array> {
-  const hmacKey = await crypto.subtle.importKey(
-    "raw",
+  let bytesToSign = options.message;
+  if (bytesToSign === undefined) {
+    if (options.movingFactor === undefined) {
+      throw new Error("Either a movingFactor or a message has to be provided!");
+    }
+    bytesToSign = numberToBytes(options.movingFactor);
+  }
+  return await (options.hmacProvider ?? webCryptoHmacProvider).sign(
+    options.algorithm,
     options.secret,
-    { name: "HMAC", hash: options.algorithm },
-    false,
-    ["sign"],
+    bytesToSign,
   );
-  const bytesToSign = numberToBytes(options.movingFactor);
-  const signedDigest = new Uint8Array(
-    await crypto.subtle.sign("HMAC", hmacKey, bytesToSign),
-  );
-  return signedDigest;
 }
 
 /**
@@ -95,6 +102,17 @@ export function extractCodeFromHmacShaDigest(
   digest: Uint8Array,
   digits: number,
 ): number {
+  const shortCode = truncateHmacShaDigest(digest) % Math.pow(10, digits);
+  return shortCode;
+}
+
+/**
+ * Extracts 31 bit from the given HMAC-SHA digest using it's last byte as offset (dynamic truncation of RFC 4226).
+ *
+ * @param digest The digest to extract from
+ * @throws Errors if the last digit of the Uint8Array is undefined
+ */
+export function truncateHmacShaDigest(digest: Uint8Array): number {
   let dynamicOffset = digest.at(digest.length - 1);
   if (dynamicOffset === undefined) throw new Error("Digest not valid!");
   // Limit the offset from 0 to 15 because SHA-1 produces a 20 byte digest
@@ -102,10 +120,8 @@ export function extractCodeFromHmacShaDigest(
   // Get 32 bit from the digest
   const codeBytes = digest.slice(dynamicOffset, dynamicOffset + 4);
   const digestAsInt = bytesToUInt32BE(codeBytes);
-  // Shorten the code to 32 bit
-  const fullCode = digestAsInt & 0x7fffffff;
-  const shortCode = fullCode % Math.pow(10, digits);
-  return shortCode;
+  // Shorten the code to 31 bit
+  return digestAsInt & 0x7fffffff;
 }
 
 /**
@@ -164,3 +180,54 @@ export function isBase32(b32: string): boolean {
   }
   return !includesBadChar;
 }
+
+/**
+ * Encodes the bytes as standard Base64 with padding.
+ * @param bytes
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * Decodes standard Base64, ignoring whitespace like line breaks.
+ * @param base64
+ * @throws TypeError if the string is not valid Base64.
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  try {
+    return Uint8Array.from(
+      atob(base64),
+      (character) => character.charCodeAt(0),
+    );
+  } catch (_) {
+    throw new TypeError("The data is not valid Base64.");
+  }
+}
+
+/**
+ * Finds the algorithm by a name like SHA1, sha-256 or SHA-512, ignoring the case and the dash.
+ * @param name
+ */
+export function parseOtpAlgorithm(name: string): OtpAlgorithm | undefined {
+  const normalizedName = name.toUpperCase().replace("-", "");
+  return Object.values(OtpAlgorithm).find((algorithm) =>
+    algorithm.replace("-", "") === normalizedName
+  );
+}
+
+/**
+ * Compares the bytes without returning early, so the time only depends on the length.
+ * @param a
+ * @param b
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let index = 0; index < a.length; index++) {
+    difference |= a[index] ^ b[index];
+  }
+  return difference === 0;
+}
@@ -2,7 +2,10 @@ import {
   bytesToUInt32BE,
   cleanUserInputFormatAndAddBase32Padding,
   numberToBytes,
+  parseOtpAlgorithm,
+  timingSafeEqual,
 } from "./util.ts";
+import { OtpAlgorithm } from "./otp.ts";
 import { assertEquals } from "./test_deps.ts";
 
 Deno.test({
@@ -91,3 +94,32 @@ Deno.test({
     );
   },
 });
+
+Deno.test({
+  name: "Parses algorithm names with and without a dash",
+  fn(): void {
+    assertEquals(parseOtpAlgorithm("SHA1"), OtpAlgorithm.SHA1);
+    assertEquals(parseOtpAlgorithm("sha-256"), OtpAlgorithm.SHA256);
+    assertEquals(parseOtpAlgorithm("Sha512"), OtpAlgorithm.SHA512);
+    assertEquals(parseOtpAlgorithm("MD5"), undefined);
+    assertEquals(parseOtpAlgorithm("SHA--1"), undefined);
+  },
+});
+
+Deno.test({
+  name: "Compares bytes in constant time",
+  fn(): void {
+    assertEquals(
+      timingSafeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2])),
+      true,
+    );
+    assertEquals(
+      timingSafeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3])),
+      false,
+    );
+    assertEquals(
+      timingSafeEqual(new Uint8Array([1]), new Uint8Array([1, 2])),
+      false,
+    );
+  },
+});
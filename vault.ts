@@ -0,0 +1,407 @@
+import { fromJSON } from "./factory.ts";
+import { Hotp } from "./hotp.ts";
+import type { KeyUriLabel } from "./key_uri.ts";
+import type { SerializedHotp, SerializedTotp } from "./serialization.ts";
+import { Totp } from "./totp.ts";
+import { decodeBase64, encodeBase64, timingSafeEqual } from "./util.ts";
+
+/**
+ * Account stored in a vault.
+ * The Otp instance is kept, so changes like an advanced Hotp counter are stored with the next save.
+ */
+export interface VaultAccount {
+  /** Random id which does not change when the account is renamed. */
+  readonly id: string;
+  label: KeyUriLabel;
+  tags: string[];
+  readonly created: Date;
+  otp: Hotp | Totp;
+}
+
+export interface VaultAddOptions {
+  tags?: string[];
+  /** Creation date, defaults to now. */
+  created?: Date;
+}
+
+export interface VaultOptions {
+  /** PBKDF2-SHA-256 iterations of the key derivation, defaults to 600000. */
+  iterations?: number;
+}
+
+/**
+ * Encrypted file format of a vault, version 1:
+ * - `kdf`: PBKDF2 with SHA-256, the iterations and a random Base64 salt of 16 bytes derive a 256 bit key from the passphrase.
+ * - `cipher`: AES-GCM with a random Base64 IV of 12 bytes, which is renewed on every save.
+ * - `data`: Base64 ciphertext including the tag of the JSON `{ "accounts": [...] }`,
+ *   where every account has an `id`, `label`, `tags`, ISO 8601 `created` date and the `otp` serialized by toJSON.
+ * - The format name and the version are authenticated as additional data.
+ */
+export interface EncryptedVault {
+  format: "otp-vault";
+  version: number;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  data: string;
+}
+
+interface VaultPayload {
+  accounts: {
+    id: string;
+    label: KeyUriLabel;
+    tags: string[];
+    created: string;
+    otp: SerializedHotp | SerializedTotp;
+  }[];
+}
+
+const vaultFormat = "otp-vault";
+const vaultVersion = 1;
+const saltByteLength = 16;
+const ivByteLength = 12;
+const maxIterations = 10000000;
+
+interface VaultKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+  /** SHA-256 of the derived bits to check the passphrase without keeping the bits. */
+  check: Uint8Array;
+}
+
+/**
+ * Many Hotp and Totp accounts with metadata stored in one file encrypted by a passphrase.
+ * The derived key is kept in memory after create or open, so the passphrase is only needed again to change it.
+ */
+export class Vault {
+  #accounts: VaultAccount[];
+  #key: VaultKey;
+
+  private constructor(accounts: VaultAccount[], key: VaultKey) {
+    this.#accounts = accounts;
+    this.#key = key;
+  }
+
+  /**
+   * Creates an empty vault.
+   * @param passphrase
+   * @param options
+   * @throws RangeError if the iterations are not an integer between 1 and 10000000.
+   */
+  static async create(
+    passphrase: string,
+    options?: VaultOptions,
+  ): Promise<Vault> {
+    const iterations = options?.iterations ?? 600000;
+    if (
+      !Number.isSafeInteger(iterations) || iterations < 1 ||
+      iterations > maxIterations
+    ) {
+      throw new RangeError(
+        `The iterations must be an integer between 1 and ${maxIterations}.`,
+      );
+    }
+    return new Vault(
+      [],
+      await deriveKey(
+        passphrase,
+        crypto.getRandomValues(new Uint8Array(saltByteLength)),
+        iterations,
+      ),
+    );
+  }
+
+  /**
+   * Decrypts a vault created by save.
+   * @param data JSON string or already parsed object of the encrypted vault.
+   * @param passphrase
+   * @throws SyntaxError if the JSON string is malformed.
+   * @throws TypeError if the encrypted vault or an account is malformed.
+   * @throws RangeError if the version is not supported.
+   * @throws Error if the passphrase is wrong or the vault was modified.
+   */
+  static async open(data: unknown, passphrase: string): Promise<Vault> {
+    const vault = parseEncryptedVault(data);
+    const key = await deriveKey(
+      passphrase,
+      decodeBase64(vault.kdf.salt),
+      vault.kdf.iterations,
+    );
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: decodeBase64(vault.cipher.iv),
+          additionalData: additionalData(),
+        },
+        key.key,
+        decodeBase64(vault.data),
+      );
+    } catch (_) {
+      throw new Error("The passphrase is wrong or the vault was modified.");
+    }
+    const payload: VaultPayload = JSON.parse(
+      new TextDecoder().decode(plaintext),
+    );
+    if (!Array.isArray(payload.accounts)) {
+      throw new TypeError("The vault accounts must be an array.");
+    }
+    const accounts = payload.accounts.map((account) => {
+      const { id, label, tags, created } = parseAccount(account);
+      const otp = fromJSON(account.otp);
+      if (otp instanceof Hotp || otp instanceof Totp) {
+        return { id, label, tags, created, otp };
+      }
+      throw new TypeError(`The vault account "${id}" is no Hotp or Totp.`);
+    });
+    return new Vault(accounts, key);
+  }
+
+  /**
+   * Reads and decrypts the vault file.
+   * @param path
+   * @param passphrase
+   * @throws Deno.errors.NotFound if the file does not exist.
+   */
+  static async openFile(path: string, passphrase: string): Promise<Vault> {
+    return await Vault.open(await Deno.readTextFile(path), passphrase);
+  }
+
+  /**
+   * Encrypts the accounts with a new IV.
+   */
+  async save(): Promise<EncryptedVault> {
+    const payload: VaultPayload = {
+      accounts: this.#accounts.map((account) => ({
+        id: account.id,
+        label: account.label,
+        tags: account.tags,
+        created: account.created.toISOString(),
+        otp: account.otp.toJSON(),
+      })),
+    };
+    const iv = crypto.getRandomValues(new Uint8Array(ivByteLength));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: additionalData() },
+      this.#key.key,
+      new TextEncoder().encode(JSON.stringify(payload)),
+    );
+    return {
+      format: vaultFormat,
+      version: vaultVersion,
+      kdf: {
+        name: "PBKDF2",
+        hash: "SHA-256",
+        iterations: this.#key.iterations,
+        salt: encodeBase64(this.#key.salt),
+      },
+      cipher: { name: "AES-GCM", iv: encodeBase64(iv) },
+      data: encodeBase64(new Uint8Array(ciphertext)),
+    };
+  }
+
+  /**
+   * Encrypts the accounts and replaces the file atomically by writing a temporary file first.
+   * @param path
+   */
+  async saveFile(path: string): Promise<void> {
+    const temporaryPath = `${path}.tmp`;
+    await Deno.writeTextFile(
+      temporaryPath,
+      JSON.stringify(await this.save(), null, 2),
+    );
+    await Deno.rename(temporaryPath, path);
+  }
+
+  /**
+   * Derives a new key with a new salt, so the next save is encrypted with the new passphrase.
+   * @param currentPassphrase
+   * @param newPassphrase
+   * @throws Error if the current passphrase is wrong.
+   */
+  async changePassphrase(
+    currentPassphrase: string,
+    newPassphrase: string,
+  ): Promise<void> {
+    const current = await deriveKey(
+      currentPassphrase,
+      this.#key.salt,
+      this.#key.iterations,
+    );
+    if (!timingSafeEqual(current.check, this.#key.check)) {
+      throw new Error("The current passphrase is wrong.");
+    }
+    this.#key = await deriveKey(
+      newPassphrase,
+      crypto.getRandomValues(new Uint8Array(saltByteLength)),
+      this.#key.iterations,
+    );
+  }
+
+  /**
+   * Returns the accounts in the order they were added.
+   * @param tag Only returns accounts with this tag if set.
+   */
+  list(tag?: string): VaultAccount[] {
+    return this.#accounts.filter((account) =>
+      tag === undefined || account.tags.includes(tag)
+    );
+  }
+
+  /**
+   * Returns the account with the id.
+   * @param id
+   * @throws TypeError if the account does not exist.
+   */
+  get(id: string): VaultAccount {
+    const account = this.#accounts.find((account) => account.id === id);
+    if (account === undefined) {
+      throw new TypeError(`The vault account "${id}" does not exist.`);
+    }
+    return account;
+  }
+
+  /**
+   * Adds an account with a random id.
+   * @param otp
+   * @param label
+   * @param options
+   */
+  add(
+    otp: Hotp | Totp,
+    label: KeyUriLabel,
+    options?: VaultAddOptions,
+  ): VaultAccount {
+    const account: VaultAccount = {
+      id: crypto.randomUUID(),
+      label: { ...label },
+      tags: [...(options?.tags ?? [])],
+      created: options?.created ?? new Date(),
+      otp,
+    };
+    this.#accounts.push(account);
+    return account;
+  }
+
+  /**
+   * Removes the account.
+   * @param id
+   * @throws TypeError if the account does not exist.
+   */
+  remove(id: string): void {
+    this.#accounts.splice(this.#accounts.indexOf(this.get(id)), 1);
+  }
+
+  /**
+   * Changes the account name and issuer of the account.
+   * @param id
+   * @param label
+   * @throws TypeError if the account does not exist.
+   */
+  rename(id: string, label: KeyUriLabel): void {
+    this.get(id).label = { ...label };
+  }
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<VaultKey> {
+  const passphraseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+      passphraseKey,
+      256,
+    ),
+  );
+  const key = await crypto.subtle.importKey("raw", bits, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+  const check = new Uint8Array(await crypto.subtle.digest("SHA-256", bits));
+  bits.fill(0);
+  return { key, salt, iterations, check };
+}
+
+function parseEncryptedVault(data: unknown): EncryptedVault {
+  const vault = typeof data === "string" ? JSON.parse(data) : data;
+  if (typeof vault !== "object" || vault === null) {
+    throw new TypeError("The encrypted vault must be an object.");
+  }
+  if (vault.format !== vaultFormat) {
+    throw new TypeError(`The format "${vault.format}" is no vault.`);
+  }
+  if (vault.version !== vaultVersion) {
+    throw new RangeError(
+      `The vault version "${vault.version}" is not supported, expected ${vaultVersion}.`,
+    );
+  }
+  if (
+    vault.kdf?.name !== "PBKDF2" || vault.kdf.hash !== "SHA-256" ||
+    !Number.isSafeInteger(vault.kdf.iterations) || vault.kdf.iterations < 1 ||
+    vault.kdf.iterations > maxIterations || typeof vault.kdf.salt !== "string"
+  ) {
+    throw new TypeError("The key derivation of the vault is not supported.");
+  }
+  if (
+    vault.cipher?.name !== "AES-GCM" || typeof vault.cipher.iv !== "string" ||
+    typeof vault.data !== "string"
+  ) {
+    throw new TypeError("The cipher of the vault is not supported.");
+  }
+  return vault;
+}
+
+/**
+ * Validates the metadata of a decrypted account, the Otp is validated by fromJSON.
+ * @param account
+ * @throws TypeError if the id, label, tags or created date are malformed.
+ */
+function parseAccount(
+  account: VaultPayload["accounts"][number],
+): Omit<VaultAccount, "otp"> {
+  if (typeof account !== "object" || account === null) {
+    throw new TypeError("The vault account must be an object.");
+  }
+  const { id, label, tags } = account;
+  if (typeof id !== "string") {
+    throw new TypeError("The id of the vault account must be a string.");
+  }
+  if (
+    typeof label !== "object" || label === null ||
+    typeof label.accountName !== "string" ||
+    (label.issuer !== undefined && typeof label.issuer !== "string")
+  ) {
+    throw new TypeError(
+      `The label of the vault account "${id}" must have a string account name and issuer.`,
+    );
+  }
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+    throw new TypeError(
+      `The tags of the vault account "${id}" must be an array of strings.`,
+    );
+  }
+  const created = new Date(account.created);
+  if (typeof account.created !== "string" || isNaN(created.getTime())) {
+    throw new TypeError(
+      `The created date of the vault account "${id}" is not valid.`,
+    );
+  }
+  const parsedLabel: KeyUriLabel = { accountName: label.accountName };
+  if (label.issuer !== undefined) parsedLabel.issuer = label.issuer;
+  return { id, label: parsedLabel, tags: [...tags], created };
+}
+
+/** Binds the ciphertext to the format and the version. */
+function additionalData(): Uint8Array {
+  return new TextEncoder().encode(`${vaultFormat}:${vaultVersion}`);
+}
@@ -0,0 +1,242 @@
+import { assertEquals, assertRejects, assertThrows } from "./test_deps.ts";
+import { Hotp } from "./hotp.ts";
+import { Totp } from "./totp.ts";
+import { decodeBase64, encodeBase64 } from "./util.ts";
+import { type EncryptedVault, Vault } from "./vault.ts";
+
+const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const options = { iterations: 1000 };
+
+/** Decrypts the payload, lets it be modified and encrypts it again like save. */
+async function modifyPayload(
+  vault: EncryptedVault,
+  passphrase: string,
+  modify: (payload: { accounts: Record<string, unknown>[] }) => void,
+): Promise<EncryptedVault> {
+  const passphraseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  const key = await crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      salt: decodeBase64(vault.kdf.salt),
+      iterations: vault.kdf.iterations,
+    },
+    passphraseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+  const algorithm = {
+    name: "AES-GCM",
+    iv: decodeBase64(vault.cipher.iv),
+    additionalData: new TextEncoder().encode("otp-vault:1"),
+  };
+  const payload = JSON.parse(
+    new TextDecoder().decode(
+      await crypto.subtle.decrypt(algorithm, key, decodeBase64(vault.data)),
+    ),
+  );
+  modify(payload);
+  const data = await crypto.subtle.encrypt(
+    algorithm,
+    key,
+    new TextEncoder().encode(JSON.stringify(payload)),
+  );
+  return { ...vault, data: encodeBase64(new Uint8Array(data)) };
+}
+
+Deno.test({
+  name: "Saved vaults can be opened with the passphrase",
+  async fn(): Promise<void> {
+    const vault = await Vault.create("correct horse", options);
+    const created = new Date("2024-01-02T03:04:05.000Z");
+    const hotp = vault.add(new Hotp(secret, { counter: 3 }), {
+      accountName: "alice",
+      issuer: "Example",
+    }, { tags: ["work"], created });
+    vault.add(new Totp(secret, { stepSize: 60 }), { accountName: "bob" });
+    await hotp.otp.generate();
+
+    const encrypted = await vault.save();
+    assertEquals(encrypted.format, "otp-vault");
+    assertEquals(encrypted.version, 1);
+    assertEquals(encrypted.kdf.iterations, 1000);
+    assertEquals(JSON.stringify(encrypted).includes(secret), false);
+
+    const opened = await Vault.open(
+      JSON.stringify(encrypted),
+      "correct horse",
+    );
+    const accounts = opened.list();
+    assertEquals(accounts.map(({ label }) => label), [
+      { accountName: "alice", issuer: "Example" },
+      { accountName: "bob" },
+    ]);
+    assertEquals(accounts[0].id, hotp.id);
+    assertEquals(accounts[0].tags, ["work"]);
+    assertEquals(accounts[0].created, created);
+    assertEquals((accounts[0].otp as Hotp).counter, 4);
+    assertEquals(
+      accounts.map(({ otp }) => otp.toJSON()),
+      vault.list().map(({ otp }) => otp.toJSON()),
+    );
+    assertEquals((await opened.save()).cipher.iv !== encrypted.cipher.iv, true);
+  },
+});
+
+Deno.test({
+  name: "Accounts can be listed by tag, renamed and removed",
+  async fn(): Promise<void> {
+    const vault = await Vault.create("passphrase", options);
+    const alice = vault.add(new Totp(secret), { accountName: "alice" }, {
+      tags: ["work", "mail"],
+    });
+    const bob = vault.add(new Totp(secret), { accountName: "bob" }, {
+      tags: ["mail"],
+    });
+    assertEquals(vault.list("work"), [alice]);
+    assertEquals(vault.list("mail"), [alice, bob]);
+
+    vault.rename(bob.id, { accountName: "robert", issuer: "Example" });
+    assertEquals(vault.get(bob.id).label, {
+      accountName: "robert",
+      issuer: "Example",
+    });
+    vault.remove(alice.id);
+    assertEquals(vault.list(), [bob]);
+    assertThrows(() => vault.remove(alice.id), TypeError, "does not exist");
+    assertThrows(
+      () => vault.rename("unknown", { accountName: "x" }),
+      TypeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "Changing the passphrase re-encrypts the vault",
+  async fn(): Promise<void> {
+    const vault = await Vault.create("old", options);
+    vault.add(new Totp(secret), { accountName: "alice" });
+    const before = await vault.save();
+
+    await assertRejects(
+      () => vault.changePassphrase("wrong", "new"),
+      Error,
+      "passphrase",
+    );
+    await vault.changePassphrase("old", "new");
+    const after = await vault.save();
+    assertEquals(after.kdf.salt !== before.kdf.salt, true);
+    assertEquals((await Vault.open(after, "new")).list().length, 1);
+    await assertRejects(() => Vault.open(after, "old"), Error, "passphrase");
+  },
+});
+
+Deno.test({
+  name: "Rejects malformed, modified and unsupported vaults",
+  async fn(): Promise<void> {
+    const vault = await Vault.create("passphrase", options);
+    const encrypted = await vault.save();
+
+    await assertRejects(() => Vault.open("{", "passphrase"), SyntaxError);
+    await assertRejects(
+      () => Vault.open({ ...encrypted, format: "other" }, "passphrase"),
+      TypeError,
+    );
+    await assertRejects(
+      () => Vault.open({ ...encrypted, version: 2 }, "passphrase"),
+      RangeError,
+    );
+    await assertRejects(
+      () =>
+        Vault.open({
+          ...encrypted,
+          kdf: { ...encrypted.kdf, iterations: 0 },
+        }, "passphrase"),
+      TypeError,
+    );
+    const data = encrypted.data;
+    const modified = `${data[0] === "A" ? "B" : "A"}${data.slice(1)}`;
+    await assertRejects(
+      () => Vault.open({ ...encrypted, data: modified }, "passphrase"),
+      Error,
+      "modified",
+    );
+    await assertRejects(
+      () =>
+        Vault.open({
+          ...encrypted,
+          kdf: { ...encrypted.kdf, iterations: 10000001 },
+        }, "passphrase"),
+      TypeError,
+    );
+    await assertRejects(
+      () => Vault.create("passphrase", { iterations: 0 }),
+      RangeError,
+    );
+    await assertRejects(
+      () => Vault.create("passphrase", { iterations: 10000001 }),
+      RangeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "Rejects vaults with malformed accounts",
+  async fn(): Promise<void> {
+    const vault = await Vault.create("passphrase", options);
+    vault.add(new Totp(secret), { accountName: "alice", issuer: "Example" });
+    const encrypted = await vault.save();
+
+    const malformed: [string, unknown, string][] = [
+      ["id", 1, "id"],
+      ["label", "alice", "label"],
+      ["label", { accountName: "alice", issuer: 1 }, "label"],
+      ["tags", "work", "tags"],
+      ["tags", ["work", 1], "tags"],
+      ["created", "yesterday", "created"],
+      ["created", 0, "created"],
+    ];
+    for (const [field, value, message] of malformed) {
+      const modified = await modifyPayload(
+        encrypted,
+        "passphrase",
+        (payload) => {
+          payload.accounts[0][field] = value;
+        },
+      );
+      await assertRejects(
+        () => Vault.open(modified, "passphrase"),
+        TypeError,
+        message,
+      );
+    }
+    const valid = await modifyPayload(encrypted, "passphrase", () => {});
+    assertEquals((await Vault.open(valid, "passphrase")).list()[0].label, {
+      accountName: "alice",
+      issuer: "Example",
+    });
+  },
+});
+
+Deno.test({
+  name: "Vault files are saved and opened",
+  async fn(): Promise<void> {
+    const path = await Deno.makeTempFile({ suffix: ".json" });
+    try {
+      const vault = await Vault.create("passphrase", options);
+      vault.add(new Hotp(secret), { accountName: "alice" });
+      await vault.saveFile(path);
+      const opened = await Vault.openFile(path, "passphrase");
+      assertEquals(opened.list()[0].label, { accountName: "alice" });
+    } finally {
+      await Deno.remove(path);
+    }
+  },
+});
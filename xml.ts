@@ -0,0 +1,194 @@
+/** Element of a parsed XML document. */
+export interface XmlElement {
+  /** Qualified name including the namespace prefix, e.g. `ds:KeyName`. */
+  name: string;
+  attributes: Record<string, string>;
+  /** Child elements and text nodes, text nodes consisting of whitespace only are omitted. */
+  children: (XmlElement | string)[];
+}
+
+const entities: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const namePattern = /[A-Za-z_][\w.:-]*/y;
+
+/**
+ * Parses the XML document needed to read data formats like PSKC.
+ * Document type declarations are rejected, so entities can not be expanded or loaded.
+ * @param text
+ * @throws SyntaxError if the document is malformed or contains a document type declaration.
+ */
+export function parseXml(text: string): XmlElement {
+  let offset = 0;
+  const fail = (message: string): never => {
+    throw new SyntaxError(`${message} at position ${offset} of the XML.`);
+  };
+  const skip = (end: string) => {
+    const index = text.indexOf(end, offset);
+    if (index === -1) fail(`Missing "${end}"`);
+    offset = index + end.length;
+  };
+  const readName = (): string => {
+    namePattern.lastIndex = offset;
+    const match = namePattern.exec(text);
+    if (match === null) return fail("Expected a name");
+    offset += match[0].length;
+    return match[0];
+  };
+  const skipWhitespace = () => {
+    while (/\s/.test(text[offset] ?? "")) offset++;
+  };
+  // Skips the prolog and comments or processing instructions between elements
+  const skipMisc = () => {
+    while (true) {
+      skipWhitespace();
+      if (text.startsWith("<?", offset)) skip("?>");
+      else if (text.startsWith("<!--", offset)) skip("-->");
+      else if (text.startsWith("<!DOCTYPE", offset)) {
+        fail("Document type declarations are not supported");
+      } else return;
+    }
+  };
+  const decodeText = (value: string): string =>
+    value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);|&/g, (match, entity) => {
+      if (entity === undefined) return fail("Unescaped ampersand");
+      if (entity.startsWith("#")) {
+        const codePoint = entity[1] === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1));
+        if (codePoint > 0x10ffff) fail(`Invalid character reference ${match}`);
+        return String.fromCodePoint(codePoint);
+      }
+      return entities[entity] ?? fail(`Unknown entity ${match}`);
+    });
+
+  const readElement = (): XmlElement => {
+    if (text[offset] !== "<") fail("Expected an element");
+    offset++;
+    const element: XmlElement = {
+      name: readName(),
+      attributes: {},
+      children: [],
+    };
+    while (true) {
+      skipWhitespace();
+      if (text.startsWith("/>", offset)) {
+        offset += 2;
+        return element;
+      }
+      if (text[offset] === ">") {
+        offset++;
+        break;
+      }
+      const name = readName();
+      skipWhitespace();
+      if (text[offset] !== "=") fail(`Expected "=" after attribute ${name}`);
+      offset++;
+      skipWhitespace();
+      const quote = text[offset];
+      if (quote !== '"' && quote !== "'") fail("Expected a quoted value");
+      const end = text.indexOf(quote, offset + 1);
+      if (end === -1) fail("Unterminated attribute value");
+      if (Object.hasOwn(element.attributes, name)) {
+        fail(`Duplicate attribute ${name}`);
+      }
+      element.attributes[name] = decodeText(text.slice(offset + 1, end));
+      offset = end + 1;
+    }
+    let content = "";
+    const flushText = () => {
+      if (content.trim() !== "") element.children.push(content);
+      content = "";
+    };
+    while (true) {
+      if (offset >= text.length) fail(`Unclosed element ${element.name}`);
+      if (text.startsWith("</", offset)) {
+        offset += 2;
+        const name = readName();
+        if (name !== element.name) {
+          fail(`Expected </${element.name}> but got </${name}>`);
+        }
+        skipWhitespace();
+        if (text[offset] !== ">") fail('Expected ">"');
+        offset++;
+        flushText();
+        return element;
+      }
+      if (text.startsWith("<![CDATA[", offset)) {
+        const start = offset + 9;
+        skip("]]>");
+        content += text.slice(start, offset - 3);
+      } else if (text.startsWith("<!--", offset)) {
+        skip("-->");
+      } else if (text.startsWith("<?", offset)) {
+        skip("?>");
+      } else if (text[offset] === "<") {
+        flushText();
+        element.children.push(readElement());
+      } else {
+        const end = text.indexOf("<", offset);
+        content += decodeText(text.slice(offset, end === -1 ? undefined : end));
+        offset = end === -1 ? text.length : end;
+      }
+    }
+  };
+
+  skipMisc();
+  const root = readElement();
+  skipMisc();
+  if (offset < text.length) fail("Unexpected content after the root element");
+  return root;
+}
+
+/**
+ * Formats the element as indented XML document with an XML declaration.
+ * Elements containing only text are written on one line.
+ * @param element
+ */
+export function formatXml(element: XmlElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${
+    formatElement(element, "")
+  }\n`;
+}
+
+function formatElement(element: XmlElement, indent: string): string {
+  const attributes = Object.entries(element.attributes)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join("");
+  const start = `${indent}<${element.name}${attributes}`;
+  if (element.children.length === 0) return `${start}/>`;
+  if (element.children.every((child) => typeof child === "string")) {
+    return `${start}>${escapeXml(element.children.join(""))}</${element.name}>`;
+  }
+  const children = element.children.map((child) =>
+    typeof child === "string"
+      ? `${indent}  ${escapeXml(child)}`
+      : formatElement(child, `${indent}  `)
+  );
+  return `${start}>\n${children.join("\n")}\n${indent}</${element.name}>`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(
+    /[<>&"']/g,
+    (character) =>
+      `&${
+        Object.entries(entities).find(([, replacement]) =>
+          replacement === character
+        )![0]
+      };`,
+  );
+}
+
+/**
+ * Returns the name of the element without the namespace prefix.
+ * @param element
+ */
+export function localName(element: XmlElement): string {
+  return element.name.slice(element.name.indexOf(":") + 1);
+}
@@ -0,0 +1,55 @@
+import { assertEquals, assertThrows } from "./test_deps.ts";
+import { formatXml, localName, parseXml } from "./xml.ts";
+
+Deno.test({
+  name: "parseXml() parses elements, attributes, entities and CDATA",
+  fn(): void {
+    const root = parseXml(`<?xml version="1.0"?>
+<!-- comment -->
+<a:root xmlns:a="urn:a" b='1 &amp; 2'>
+  <child>x &lt; y &#x41;&#66;<![CDATA[<raw>]]></child>
+  <empty/>
+</a:root>`);
+    assertEquals(root, {
+      name: "a:root",
+      attributes: { "xmlns:a": "urn:a", b: "1 & 2" },
+      children: [
+        { name: "child", attributes: {}, children: ["x < y AB<raw>"] },
+        { name: "empty", attributes: {}, children: [] },
+      ],
+    });
+    assertEquals(localName(root), "root");
+  },
+});
+
+Deno.test({
+  name: "formatXml() can be parsed again",
+  fn(): void {
+    const element = {
+      name: "root",
+      attributes: { quote: `"'<>&` },
+      children: [{ name: "child", attributes: {}, children: ["a & b"] }],
+    };
+    assertEquals(parseXml(formatXml(element)), element);
+  },
+});
+
+Deno.test({
+  name: "parseXml() rejects malformed documents and document types",
+  fn(): void {
+    for (
+      const xml of [
+        "",
+        "<a>",
+        "<a></b>",
+        "<a b=1/>",
+        '<a b="1" b="2"/>',
+        "<a>&unknown;</a>",
+        "<a/><b/>",
+        '<!DOCTYPE a [<!ENTITY x "y">]><a>&x;</a>',
+      ]
+    ) {
+      assertThrows(() => parseXml(xml), SyntaxError);
+    }
+  },
+});